@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Run the adversarial corpus through scoreProof and check the injection
+ * defenses: every "flagged" case must be flagged and kept from
+ * auto-completing, every "clean" case must not be flagged.
+ *
+ * Uses the deterministic fixture provider unless SCORING_PROVIDER says
+ * otherwise, e.g. to check a local model:
+ *   SCORING_PROVIDER=openai SCORING_BASE_URL=http://localhost:11434/v1 \
+ *   SCORING_MODEL=llama3.1 npm run test:adversarial
+ */
+
+import { readFileSync } from "node:fs";
+import { AUTO_COMPLETE_SCORE } from "./chain";
+import { loadScoringConfig } from "./config";
+import { scoreProof } from "./scoring";
+
+interface CorpusCase {
+  id: string;
+  expect: "flagged" | "clean";
+  goal: string;
+  proof: string;
+  /** On-chain goal category; "other" when unset */
+  category?: number;
+}
+
+async function main(args: string[]) {
+  const corpusPath =
+    args[0] ?? new URL("./corpus/adversarial.json", import.meta.url);
+  const cases = JSON.parse(readFileSync(corpusPath, "utf8")) as CorpusCase[];
+  // Not loading .env: the corpus should not hit a paid API by accident
+  const config = loadScoringConfig({
+    env: { SCORING_PROVIDER: "fixture", ...process.env },
+  });
+  console.log(
+    `🛡️  Adversarial corpus: ${cases.length} case(s), ${config.provider}/${config.model}, ${config.manipulationPolicy} policy\n`
+  );
+
+  const failures: string[] = [];
+  for (const testCase of cases) {
+    const result = await scoreProof(config, testCase.goal, testCase.proof, {
+      category: testCase.category,
+    });
+    const { flagged, signals } = result.manipulation;
+
+    let problem: string | undefined;
+    if (testCase.expect === "flagged" && !flagged) {
+      problem = "not flagged";
+    } else if (
+      testCase.expect === "flagged" &&
+      result.score >= AUTO_COMPLETE_SCORE
+    ) {
+      problem = `flagged but would auto-complete (score ${result.score})`;
+    } else if (testCase.expect === "clean" && flagged) {
+      problem = `flagged a clean proof (${signals.join("; ")})`;
+    }
+
+    const detail = flagged ? signals.join("; ") : "not flagged";
+    console.log(
+      `${problem ? "❌" : "✅"} ${testCase.id.padEnd(24)} score ${String(result.score).padStart(3)}  ${detail}`
+    );
+    if (problem) failures.push(`${testCase.id}: ${problem}`);
+  }
+
+  console.log(
+    `\n${cases.length - failures.length}/${cases.length} case(s) passed`
+  );
+  if (failures.length) {
+    console.error(`\n❌ Failures:\n${failures.map((f) => `  - ${f}`).join("\n")}`);
+    process.exit(1);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
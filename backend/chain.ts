@@ -1,6 +1,7 @@
 import {
   createPublicClient,
   createWalletClient,
+  defineChain,
   http,
   PublicClient,
   type Account,
@@ -9,29 +10,36 @@ import {
   type WalletClient,
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
+import type { TargetConfig } from "./config";
+import type { TransactionManager } from "./txmanager";
 
 /**
  * Extended WalletClient type that includes writeContract.
  * The base WalletClient type from viem doesn't expose writeContract
  * unless the account generic is specified.
  */
-type WriteableWalletClient = WalletClient<Transport, Chain, Account>;
-
-// Monad Testnet configuration
-export const monadTestnet = {
-  id: 10143,
-  name: "Monad Testnet",
-  nativeCurrency: {
-    name: "MON",
-    symbol: "MON",
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: [process.env.RPC_URL || "https://testnet-rpc.monad.xyz"],
+export type WriteableWalletClient = WalletClient<Transport, Chain, Account>;
+
+/**
+ * viem chain for a target; Monad testnet, staging and a local anvil fork all
+ * use MON as the native currency
+ */
+export function targetChain(target: TargetConfig): Chain {
+  return defineChain({
+    id: target.chainId,
+    name: target.name,
+    nativeCurrency: {
+      name: "MON",
+      symbol: "MON",
+      decimals: 18,
     },
-  },
-} as const;
+    rpcUrls: {
+      default: {
+        http: [target.rpcUrl],
+      },
+    },
+  });
+}
 
 // Contract ABI — includes all events and functions for goal lifecycle
 export const STAKE_CONTRACT_ABI = [
@@ -78,6 +86,42 @@ export const STAKE_CONTRACT_ABI = [
       { indexed: false, name: "reason", type: "string" },
     ],
   },
+  {
+    type: "event",
+    name: "VoteStarted",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "votingDeadline", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteCast",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: true, name: "voter", type: "address" },
+      { indexed: false, name: "support", type: "bool" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteExtended",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "votingDeadline", type: "uint256" },
+      { indexed: false, name: "totalVotes", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteResolved",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "passed", type: "bool" },
+      { indexed: false, name: "yesVotes", type: "uint256" },
+      { indexed: false, name: "noVotes", type: "uint256" },
+    ],
+  },
   {
     type: "event",
     name: "GoalResolved",
@@ -86,6 +130,14 @@ export const STAKE_CONTRACT_ABI = [
       { indexed: false, name: "status", type: "uint8" },
     ],
   },
+  {
+    type: "event",
+    name: "GoalExpired",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: true, name: "caller", type: "address" },
+    ],
+  },
   {
     type: "event",
     name: "BadgeMintedForGoal",
@@ -145,6 +197,27 @@ export const STAKE_CONTRACT_ABI = [
     outputs: [{ name: "goalIds", type: "uint256[]" }],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "getVoteInfo",
+    inputs: [{ name: "goalId", type: "uint256" }],
+    outputs: [
+      { name: "yesVotes", type: "uint256" },
+      { name: "noVotes", type: "uint256" },
+      { name: "resolved", type: "bool" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getVoteParams",
+    inputs: [{ name: "goalId", type: "uint256" }],
+    outputs: [
+      { name: "deadline", type: "uint256" },
+      { name: "quorum", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
   {
     type: "function",
     name: "getUserStreak",
@@ -162,6 +235,13 @@ export const STAKE_CONTRACT_ABI = [
     outputs: [{ name: "", type: "uint256" }],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "aiVerifier",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
   {
     type: "function",
     name: "totalStaked",
@@ -213,6 +293,20 @@ export const STAKE_CONTRACT_ABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "resolveVote",
+    inputs: [{ name: "goalId", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "expireGoal",
+    inputs: [{ name: "goalId", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "withdrawStake",
@@ -222,39 +316,117 @@ export const STAKE_CONTRACT_ABI = [
   },
 ] as const;
 
-// Initialize viem clients
-export function initializeClients() {
-  const privateKey = process.env.PRIVATE_KEY;
-  if (!privateKey) {
-    throw new Error("PRIVATE_KEY environment variable not set");
-  }
+// StakeYourGoalSecure: verdicts signed off-chain by the AI signer, relayed by anyone
+export const SECURE_CONTRACT_ABI = [
+  {
+    type: "event",
+    name: "AIVerdictSubmitted",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "score", type: "uint64" },
+      { indexed: false, name: "signature", type: "bytes" },
+    ],
+  },
+  {
+    type: "function",
+    name: "submitAIVerdictWithSignature",
+    inputs: [
+      { name: "goalId", type: "uint256" },
+      { name: "score", type: "uint64" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "goals",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [
+      { name: "user", type: "address" },
+      { name: "stakeAmount", type: "uint96" },
+      { name: "deadline", type: "uint64" },
+      { name: "createdAt", type: "uint64" },
+      { name: "aiScore", type: "uint64" },
+      { name: "status", type: "uint8" },
+      { name: "category", type: "uint8" },
+      { name: "description", type: "string" },
+      { name: "proofURI", type: "string" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "goalNonces",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "aiSigner",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+    stateMutability: "view",
+  },
+] as const;
 
-  const contractAddress = process.env.CONTRACT_ADDRESS as `0x${string}`;
-  if (!contractAddress) {
-    throw new Error("CONTRACT_ADDRESS environment variable not set");
-  }
+export type ScoreOutcome = "complete" | "fail" | "vote";
 
-  const account = privateKeyToAccount(
-    privateKey.startsWith("0x")
-      ? (privateKey as `0x${string}`)
-      : (`0x${privateKey}` as `0x${string}`)
-  );
+// setAIScore thresholds in StakeYourGoal.sol
+export const AUTO_COMPLETE_SCORE = 75;
+export const AUTO_FAIL_BELOW_SCORE = 40;
+// Proofs are accepted until this long after the deadline (PROOF_GRACE_PERIOD)
+export const PROOF_GRACE_PERIOD_SECONDS = 86_400n;
+
+/**
+ * What the contract does with an AI score: auto-complete at 75+, auto-fail
+ * below 40, otherwise open a DAO vote
+ */
+export function scoreOutcome(score: number): ScoreOutcome {
+  if (score >= AUTO_COMPLETE_SCORE) return "complete";
+  if (score < AUTO_FAIL_BELOW_SCORE) return "fail";
+  return "vote";
+}
+
+/**
+ * The nearest score that opens a DAO vote (40-74), for scores people should
+ * decide rather than the contract
+ */
+export function clampToVoteRange(score: number): number {
+  return Math.min(AUTO_COMPLETE_SCORE - 1, Math.max(AUTO_FAIL_BELOW_SCORE, score));
+}
+
+const GOAL_STATUSES = ["active", "completed", "failed", "disputed"] as const;
+
+/**
+ * Status label for a goal; active goals with a mid-range score are in a DAO vote
+ */
+export function goalStatusLabel(status: number, aiScore: bigint): string {
+  if (status === 0 && aiScore >= 40n && aiScore < 75n) return "voting";
+  return GOAL_STATUSES[status] ?? "unknown";
+}
+
+// Initialize viem clients for one target
+export function initializeClients(target: TargetConfig) {
+  const account = privateKeyToAccount(target.verifierKey);
+  const chain = targetChain(target);
 
   const publicClient = createPublicClient({
-    chain: monadTestnet,
-    transport: http(),
+    chain,
+    transport: http(target.rpcUrl),
   });
 
   const walletClient = createWalletClient({
     account,
-    chain: monadTestnet,
-    transport: http(),
+    chain,
+    transport: http(target.rpcUrl),
   });
 
   return {
     publicClient,
     walletClient,
-    contractAddress,
+    contractAddress: target.contractAddress,
     account,
   };
 }
@@ -265,21 +437,24 @@ export function initializeClients() {
 export async function getGoal(
   publicClient: PublicClient,
   contractAddress: `0x${string}`,
-  goalId: bigint
+  goalId: bigint,
+  blockNumber?: bigint
 ) {
   return publicClient.readContract({
     address: contractAddress,
     abi: STAKE_CONTRACT_ABI,
     functionName: "getGoal",
     args: [goalId],
+    blockNumber,
   });
 }
 
 /**
  * Submit AI score on-chain (0-100 range with auto-resolve)
+ * Resolves with the confirmed receipt; reverts surface as typed errors
  */
 export async function submitAIScore(
-  walletClient: WriteableWalletClient,
+  txManager: TransactionManager,
   contractAddress: `0x${string}`,
   goalId: bigint,
   score: number
@@ -288,33 +463,84 @@ export async function submitAIScore(
     throw new Error("Score must be between 0 and 100");
   }
 
-  const hash = await walletClient.writeContract({
+  return txManager.write({
     address: contractAddress,
     abi: STAKE_CONTRACT_ABI,
     functionName: "setAIScore",
     args: [goalId, BigInt(score)],
   });
-
-  return hash;
 }
 
 /**
  * Binary verify goal on-chain (pass/fail)
+ * Resolves with the confirmed receipt; reverts surface as typed errors
  */
 export async function verifyGoal(
-  walletClient: WriteableWalletClient,
+  txManager: TransactionManager,
   contractAddress: `0x${string}`,
   goalId: bigint,
   result: boolean
 ) {
-  const hash = await walletClient.writeContract({
+  return txManager.write({
     address: contractAddress,
     abi: STAKE_CONTRACT_ABI,
     functionName: "verifyGoal",
     args: [goalId, result],
   });
+}
+
+/**
+ * Fail a goal whose proof window closed without a proof (callable by anyone)
+ * Resolves with the confirmed receipt; reverts surface as typed errors
+ */
+export async function expireGoal(
+  txManager: TransactionManager,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  return txManager.write({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    functionName: "expireGoal",
+    args: [goalId],
+  });
+}
+
+/**
+ * Resolve a DAO vote once its deadline passed (callable by anyone); without
+ * quorum the contract extends the vote instead
+ * Resolves with the confirmed receipt; reverts surface as typed errors
+ */
+export async function resolveVote(
+  txManager: TransactionManager,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  return txManager.write({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    functionName: "resolveVote",
+    args: [goalId],
+  });
+}
 
-  return hash;
+/**
+ * Fetch ProofSubmitted logs for a block range (used for backfill)
+ */
+export async function getProofSubmittedLogs(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+) {
+  return publicClient.getContractEvents({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "ProofSubmitted",
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
 }
 
 /**
@@ -365,17 +591,193 @@ export function watchGoalVerified(
   });
 }
 
+/**
+ * Watch for AIScoredProof events (scores put on-chain by any verifier)
+ */
+export function watchAIScoredProof(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  onLogs: (logs: any[]) => Promise<void>
+) {
+  return publicClient.watchContractEvent({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "AIScoredProof",
+    onLogs,
+  });
+}
+
+/**
+ * Watch for VoteStarted events (mid-range scores sent to a DAO vote)
+ */
+export function watchVoteStarted(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  onLogs: (logs: any[]) => Promise<void>
+) {
+  return publicClient.watchContractEvent({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "VoteStarted",
+    onLogs,
+  });
+}
+
+/**
+ * Watch for CharityDonation events
+ */
+export function watchCharityDonation(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  onLogs: (logs: any[]) => Promise<void>
+) {
+  return publicClient.watchContractEvent({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "CharityDonation",
+    onLogs,
+  });
+}
+
+/**
+ * Watch for VoteExtended events (deadline passed without quorum)
+ */
+export function watchVoteExtended(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  onLogs: (logs: any[]) => Promise<void>
+) {
+  return publicClient.watchContractEvent({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "VoteExtended",
+    onLogs,
+  });
+}
+
+/**
+ * Watch for VoteResolved events
+ */
+export function watchVoteResolved(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  onLogs: (logs: any[]) => Promise<void>
+) {
+  return publicClient.watchContractEvent({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    eventName: "VoteResolved",
+    onLogs,
+  });
+}
+
 /**
  * Get total goals count
  */
 export async function getGoalCounter(
   publicClient: PublicClient,
-  contractAddress: `0x${string}`
+  contractAddress: `0x${string}`,
+  blockNumber?: bigint
 ) {
   return publicClient.readContract({
     address: contractAddress,
     abi: STAKE_CONTRACT_ABI,
     functionName: "goalCounter",
+    blockNumber,
+  });
+}
+
+/**
+ * Get yes/no tallies and whether the vote was resolved
+ */
+export async function getVoteInfo(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  return publicClient.readContract({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    functionName: "getVoteInfo",
+    args: [goalId],
+  });
+}
+
+/**
+ * Get the voting deadline (0 if no vote started) and quorum of a goal
+ */
+export async function getVoteParams(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  return publicClient.readContract({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    functionName: "getVoteParams",
+    args: [goalId],
+  });
+}
+
+/**
+ * Get the address allowed to submit AI scores
+ */
+export async function getAIVerifier(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`
+) {
+  return publicClient.readContract({
+    address: contractAddress,
+    abi: STAKE_CONTRACT_ABI,
+    functionName: "aiVerifier",
+  });
+}
+
+/**
+ * Get the signed-verdict nonce of a goal on StakeYourGoalSecure
+ */
+export async function getGoalNonce(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  return publicClient.readContract({
+    address: contractAddress,
+    abi: SECURE_CONTRACT_ABI,
+    functionName: "goalNonces",
+    args: [goalId],
+  });
+}
+
+/**
+ * Get a goal from StakeYourGoalSecure (an unused id reads as an empty goal)
+ */
+export async function getSecureGoal(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  goalId: bigint
+) {
+  const [user, , , , aiScore, status, , description] =
+    await publicClient.readContract({
+      address: contractAddress,
+      abi: SECURE_CONTRACT_ABI,
+      functionName: "goals",
+      args: [goalId],
+    });
+  return { user, aiScore, status, description };
+}
+
+/**
+ * Get the address whose signatures StakeYourGoalSecure accepts
+ */
+export async function getAISigner(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`
+) {
+  return publicClient.readContract({
+    address: contractAddress,
+    abi: SECURE_CONTRACT_ABI,
+    functionName: "aiSigner",
   });
 }
 
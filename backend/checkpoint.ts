@@ -0,0 +1,139 @@
+/**
+ * Durable block checkpoint for the verifier event loop.
+ * Stores the last block whose ProofSubmitted events have all been fully
+ * processed, so a restart can replay anything emitted while the service was down.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+// Scanned block hashes kept for reorg detection
+const MAX_RECENT_BLOCKS = 64;
+
+interface CheckpointFile {
+  lastProcessedBlock: string;
+  updatedAt: string;
+}
+
+/**
+ * Read the persisted checkpoint, or null if none has been written yet
+ */
+export function loadCheckpoint(path: string): bigint | null {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+
+  const data = JSON.parse(raw) as CheckpointFile;
+  return BigInt(data.lastProcessedBlock);
+}
+
+/**
+ * Persist the checkpoint atomically (write to a temp file, then rename)
+ */
+export function saveCheckpoint(path: string, block: bigint): void {
+  const data: CheckpointFile = {
+    lastProcessedBlock: block.toString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  mkdirSync(dirname(path), { recursive: true });
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+  renameSync(tmpPath, path);
+}
+
+/**
+ * Tracks in-flight logs and advances the checkpoint only past blocks whose
+ * logs have all been released. A log that is never released (e.g. its score
+ * transaction failed) holds the checkpoint back so it is replayed on restart.
+ */
+export class CheckpointTracker {
+  private readonly pending = new Map<string, bigint>();
+  private readonly recent: Array<{ number: bigint; hash: `0x${string}` }> = [];
+  private scannedTo: bigint;
+  private saved: bigint;
+
+  constructor(
+    private readonly path: string,
+    initialBlock: bigint
+  ) {
+    this.scannedTo = initialBlock;
+    this.saved = initialBlock;
+  }
+
+  /** Last block that has been fully processed and persisted */
+  get lastProcessedBlock(): bigint {
+    return this.saved;
+  }
+
+  /** Highest block the log scanner has read up to */
+  get lastScannedBlock(): bigint {
+    return this.scannedTo;
+  }
+
+  /** Register a log that is about to be processed */
+  hold(key: string, block: bigint): void {
+    this.pending.set(key, block);
+  }
+
+  /** Mark a log as fully processed */
+  release(key: string): void {
+    if (this.pending.delete(key)) {
+      this.flush();
+    }
+  }
+
+  /** Scanned blocks with the hash seen at scan time, oldest first */
+  get recentBlocks(): ReadonlyArray<{ number: bigint; hash: `0x${string}` }> {
+    return this.recent;
+  }
+
+  /** Record that every log up to and including `block` has been dispatched */
+  markScanned(block: bigint): void {
+    if (block > this.scannedTo) {
+      this.scannedTo = block;
+      this.flush();
+    }
+  }
+
+  /** Remember the hash of a scanned block so a later reorg can be noticed */
+  recordBlockHash(number: bigint, hash: `0x${string}`): void {
+    if (this.recent[this.recent.length - 1]?.number === number) return;
+    this.recent.push({ number, hash });
+    if (this.recent.length > MAX_RECENT_BLOCKS) this.recent.shift();
+  }
+
+  /**
+   * Scan again from `block + 1` after a reorg replaced later blocks. The
+   * persisted checkpoint moves back too, so a restart also rescans them.
+   */
+  rewind(block: bigint): void {
+    if (block < this.scannedTo) this.scannedTo = block;
+    while (
+      this.recent.length > 0 &&
+      this.recent[this.recent.length - 1].number > block
+    ) {
+      this.recent.pop();
+    }
+    if (block < this.saved) {
+      saveCheckpoint(this.path, block);
+      this.saved = block;
+    }
+  }
+
+  private flush(): void {
+    let safe = this.scannedTo;
+    for (const block of this.pending.values()) {
+      if (block - 1n < safe) safe = block - 1n;
+    }
+
+    if (safe > this.saved) {
+      saveCheckpoint(this.path, safe);
+      this.saved = safe;
+    }
+  }
+}
@@ -0,0 +1,444 @@
+#!/usr/bin/env node
+/**
+ * Operator CLI for the verifier: score or rescore a goal by hand, backfill
+ * proofs into the job queue, inspect a goal, manage the queue, and check the
+ * verifier wallet.
+ *
+ * Queue commands edit the queue file directly; stop the service first so it
+ * does not overwrite the change.
+ */
+
+import "dotenv/config";
+import { createHash } from "node:crypto";
+import { parseArgs } from "node:util";
+import { formatEther } from "viem";
+import {
+  getAIVerifier,
+  getGoal,
+  getProofSubmittedLogs,
+  goalStatusLabel,
+  initializeClients,
+  scoreOutcome,
+  submitAIScore,
+} from "./chain";
+import {
+  formatConfig,
+  loadConfig,
+  type TargetConfig,
+  type VerifierConfig,
+} from "./config";
+import { categoryName } from "./rubrics";
+import { PROMPT_VERSION, scoreProof } from "./scoring";
+import { describeProof, extractProof } from "./extract";
+import { fetchProofFromIPFS } from "./ipfs";
+import { openLedger } from "./ledger";
+import { JobQueue, type VerificationJob } from "./queue";
+import { ContractRevertError, TransactionManager } from "./txmanager";
+
+const USAGE = `Usage: timevault-verifier [--config <file>] [--target <name>] <command>
+
+Commands:
+  score <goalId>                  Score a goal's proof without submitting
+  rescore <goalId> [--submit]     Score again; --submit puts the score on-chain
+  backfill --from-block <n> [--to-block <n>]
+                                  Queue ProofSubmitted logs from a block range
+  status <goalId>                 On-chain goal, queue job and ledger history
+  queue list [--dead]             Unfinished jobs (or the dead-letter table)
+  queue retry <goalId>            Move a dead-lettered job back to the queue
+  queue drop <goalId>             Remove a job
+  whoami                          Verifier address, balance and role check
+  config                          Validate and print the effective config
+
+Options:
+  --config <file>                 JSON config file (default: CONFIG_FILE)
+  --target <name>                 Deployment to act on (default: the first target)`;
+
+/** Thrown for bad arguments; printed with the usage text */
+class UsageError extends Error {}
+
+function parseGoalId(value: string | undefined): bigint {
+  if (!value || !/^\d+$/.test(value)) {
+    throw new UsageError("A numeric goal id is required");
+  }
+  return BigInt(value);
+}
+
+function selectTarget(config: VerifierConfig, name?: string): TargetConfig {
+  if (!name) return config.targets[0];
+  const target = config.targets.find((target) => target.name === name);
+  if (!target) {
+    throw new UsageError(
+      `Unknown target: ${name} (configured: ${config.targets.map((t) => t.name).join(", ")})`
+    );
+  }
+  return target;
+}
+
+function openQueue(config: VerifierConfig, target: TargetConfig): JobQueue {
+  // Never started, so the handler does not run; the service processes jobs
+  return new JobQueue(
+    {
+      path: target.queueFile,
+      concurrency: 1,
+      maxAttempts: config.queue.maxAttempts,
+      pollIntervalMs: 1000,
+      retryPolicies: config.queue.retryPolicies,
+      doneRetentionMs: config.queue.doneRetentionMs,
+    },
+    async () => {}
+  );
+}
+
+function formatJob(job: VerificationJob): string {
+  const error = job.lastError ? ` — ${job.failureClass}: ${job.lastError}` : "";
+  return `#${job.goalId}  ${job.state}  attempts ${job.attempts}  ${job.proofURI}${error}`;
+}
+
+/**
+ * Fetch and score a goal's proof, exactly as the service does
+ */
+async function scoreGoal(
+  config: VerifierConfig,
+  target: TargetConfig,
+  goalId: bigint
+) {
+  const clients = initializeClients(target);
+  const goal = await getGoal(
+    clients.publicClient,
+    clients.contractAddress,
+    goalId
+  );
+  if (!goal.proofURI) {
+    throw new Error(`Goal #${goalId} has no proof submitted`);
+  }
+
+  const description = goal.description || "No description";
+  console.log(`📝 Goal: ${description} (${categoryName(goal.category)})`);
+  console.log(`📎 Proof URI: ${goal.proofURI}`);
+
+  const proofContent = await fetchProofFromIPFS(config.ipfs, goal.proofURI);
+  const extracted = await extractProof(config.scoring, proofContent);
+  console.log(
+    `✅ Proof content fetched (${proofContent.contentType}, ${describeProof(extracted)})`
+  );
+
+  const result = await scoreProof(config.scoring, description, extracted.text, {
+    images: extracted.images,
+    category: goal.category,
+  });
+  if (result.indeterminate) {
+    console.log("⚖️  No valid verdict from the model");
+  }
+  if (result.ensemble) {
+    const { median, spread, confidence, lowConfidence } = result.ensemble;
+    console.log(
+      `🎲 Ensemble: median ${median}, spread ${spread}, confidence ${confidence}${lowConfidence ? " (low)" : ""}`
+    );
+  }
+  if (result.manipulation.flagged) {
+    console.log(
+      `🛡️  Manipulation attempt flagged: ${result.manipulation.signals.join("; ")}`
+    );
+  }
+  console.log(`📊 AI Score: ${result.score}/100 (would ${scoreOutcome(result.score)})`);
+  console.log(`💬 Reason: ${result.reason} (rubric ${result.rubric})`);
+
+  return { clients, goal, description, proofContent, extracted, result };
+}
+
+/**
+ * Why `rescore --submit` cannot send the score itself, or null when the
+ * service would call setAIScore too. Other modes sign, attest or only log
+ * scores, which the CLI does not do.
+ */
+function submitBlocker(config: VerifierConfig): string | null {
+  if (config.mode === "shadow") return "the verifier runs in shadow mode (VERIFIER_MODE=shadow)";
+  if (config.verdict.mode === "signature") {
+    return "verdicts are signed for the verdict contract (VERDICT_MODE=signature)";
+  }
+  if (config.quorum.role !== "off") {
+    return `scores go through the quorum (QUORUM_ROLE=${config.quorum.role})`;
+  }
+  return null;
+}
+
+async function rescore(
+  config: VerifierConfig,
+  target: TargetConfig,
+  goalId: bigint,
+  submit: boolean
+) {
+  const blocker = submit ? submitBlocker(config) : null;
+  if (blocker) {
+    throw new UsageError(`--submit only sends scores directly, but ${blocker}`);
+  }
+  const { clients, goal, description, proofContent, extracted, result } =
+    await scoreGoal(config, target, goalId);
+  if (!submit) {
+    console.log("ℹ️  Not submitted (pass --submit to put the score on-chain)");
+    return;
+  }
+
+  const txManager = new TransactionManager(
+    clients.publicClient,
+    clients.walletClient,
+    config.tx
+  );
+  const ledger = await openLedger(config.ledger.databaseUrl, config.ledger.sqlitePath);
+  // Attempt 0 marks a manual rescore in the ledger
+  const entry = {
+    target: target.name,
+    goalId: goalId.toString(),
+    attempt: 0,
+    description,
+    proofURI: goal.proofURI,
+    contentHash: createHash("sha256").update(proofContent.data).digest("hex"),
+    textLength: extracted.text.length,
+    model: result.model,
+    promptVersion: PROMPT_VERSION,
+    rawOutput: result.raw,
+    score: result.score,
+    reason: result.reason,
+    quorum: null,
+    manipulation: result.manipulation.flagged
+      ? JSON.stringify(result.manipulation.signals)
+      : null,
+    rubric: result.rubric,
+    ensemble: result.ensemble ? JSON.stringify(result.ensemble) : null,
+    contentType: proofContent.contentType,
+    pageCount: extracted.document?.pages ?? null,
+  };
+
+  try {
+    console.log("⛓️  Submitting score on-chain...");
+    const receipt = await submitAIScore(
+      txManager,
+      clients.contractAddress,
+      goalId,
+      result.score
+    );
+    console.log(
+      `✅ Transaction confirmed: ${receipt.transactionHash} (block ${receipt.blockNumber})`
+    );
+    await ledger.record({
+      ...entry,
+      txHash: receipt.transactionHash,
+      outcome: "confirmed",
+      error: null,
+    });
+  } catch (error) {
+    await ledger.record({
+      ...entry,
+      txHash: null,
+      outcome: error instanceof ContractRevertError ? "reverted" : "error",
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  } finally {
+    await ledger.close();
+  }
+}
+
+async function backfill(
+  config: VerifierConfig,
+  target: TargetConfig,
+  fromBlock: bigint,
+  toBlock?: bigint
+) {
+  const { publicClient, contractAddress } = initializeClients(target);
+  // Like the service, stop short of blocks that could still be reorged
+  const endBlock =
+    toBlock ??
+    (await publicClient.getBlockNumber()) -
+      BigInt(config.eventLoop.confirmations);
+  const queue = openQueue(config, target);
+  const { logBlockRange } = config.eventLoop;
+
+  console.log(`⏪ Scanning ProofSubmitted from block ${fromBlock} to ${endBlock}...`);
+  let queued = 0;
+  for (let from = fromBlock; from <= endBlock; from += logBlockRange) {
+    const rangeEnd = from + logBlockRange - 1n;
+    const logs = await getProofSubmittedLogs(
+      publicClient,
+      contractAddress,
+      from,
+      rangeEnd < endBlock ? rangeEnd : endBlock
+    );
+    for (const log of logs) {
+      if (queue.get(log.args.goalId.toString())?.proofURI === log.args.proofURI) {
+        continue;
+      }
+      queue.enqueue(log.args.goalId, log.args.proofURI);
+      queued++;
+      console.log(`📦 Queued goal #${log.args.goalId}: ${log.args.proofURI}`);
+    }
+  }
+  console.log(`✅ Backfill complete: ${queued} job(s) queued in ${target.queueFile}`);
+}
+
+async function status(
+  config: VerifierConfig,
+  target: TargetConfig,
+  goalId: bigint
+) {
+  const { publicClient, contractAddress } = initializeClients(target);
+  const goal = await getGoal(publicClient, contractAddress, goalId);
+
+  console.log(`🎯 Goal #${goalId} on ${target.name}`);
+  console.log(`   Status: ${goalStatusLabel(goal.status, goal.aiScore)}`);
+  console.log(`   User: ${goal.user}`);
+  console.log(`   Stake: ${formatEther(goal.stakeAmount)} MON`);
+  console.log(`   Deadline: ${new Date(Number(goal.deadline) * 1000).toISOString()}`);
+  console.log(`   AI score: ${goal.aiScore}`);
+  console.log(`   Description: ${goal.description}`);
+  console.log(`   Proof: ${goal.proofURI || "none"}`);
+
+  const job = openQueue(config, target).get(goalId.toString());
+  console.log(`\n📦 Queue: ${job ? formatJob(job) : "no job"}`);
+
+  const ledger = await openLedger(config.ledger.databaseUrl, config.ledger.sqlitePath);
+  try {
+    const entries = await ledger.listForGoal(target.name, goalId.toString());
+    console.log(`\n📒 Ledger (${entries.length} attempt(s)):`);
+    for (const entry of entries) {
+      const score = entry.score === null ? "no score" : `score ${entry.score}`;
+      const tx = entry.txHash ? ` tx ${entry.txHash}` : "";
+      const error = entry.error ? ` — ${entry.error}` : "";
+      console.log(
+        `   ${entry.createdAt}  attempt ${entry.attempt}  ${entry.outcome}  ${score}  ${entry.model ?? ""} ${entry.promptVersion ?? ""} ${entry.rubric ?? ""}${tx}${error}`
+      );
+      if (entry.reason) console.log(`      💬 ${entry.reason}`);
+    }
+  } finally {
+    await ledger.close();
+  }
+}
+
+function queueCommand(
+  config: VerifierConfig,
+  target: TargetConfig,
+  action: string | undefined,
+  goalId: string | undefined,
+  dead: boolean
+) {
+  const queue = openQueue(config, target);
+  switch (action) {
+    case "list": {
+      const jobs = dead
+        ? queue.listDeadLetters()
+        : queue.list().filter((job) => job.state !== "done");
+      console.log(`📦 ${jobs.length} ${dead ? "dead-lettered" : "unfinished"} job(s)`);
+      for (const job of jobs) console.log(`   ${formatJob(job)}`);
+      return;
+    }
+    case "retry": {
+      const id = parseGoalId(goalId).toString();
+      if (!queue.requeue(id)) {
+        throw new Error(`Goal #${id} is not in the dead-letter table`);
+      }
+      console.log(`🔁 Goal #${id} moved back to the queue`);
+      return;
+    }
+    case "drop": {
+      const id = parseGoalId(goalId).toString();
+      if (!queue.drop(id)) {
+        throw new Error(`Goal #${id} has no job`);
+      }
+      console.log(`🗑️  Goal #${id} removed from the queue`);
+      return;
+    }
+    default:
+      throw new UsageError(`Unknown queue action: ${action ?? "(none)"}`);
+  }
+}
+
+async function whoami(target: TargetConfig) {
+  const { publicClient, contractAddress, account } = initializeClients(target);
+  const [balance, aiVerifier] = await Promise.all([
+    publicClient.getBalance({ address: account.address }),
+    getAIVerifier(publicClient, contractAddress),
+  ]);
+  const isVerifier = aiVerifier.toLowerCase() === account.address.toLowerCase();
+
+  console.log(`🎯 Target: ${target.name} (chain ${target.chainId})`);
+  console.log(`🔗 Verifier: ${account.address}`);
+  console.log(`💰 Balance: ${formatEther(balance)} MON`);
+  console.log(`📋 Contract: ${contractAddress}`);
+  console.log(`🤖 Contract aiVerifier: ${aiVerifier}`);
+  console.log(
+    isVerifier
+      ? "✅ This key is the contract's AI verifier"
+      : "❌ This key is NOT the contract's AI verifier; score submissions will revert"
+  );
+  if (balance === 0n) console.log("⚠️  No MON for gas");
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      submit: { type: "boolean", default: false },
+      "from-block": { type: "string" },
+      "to-block": { type: "string" },
+      dead: { type: "boolean", default: false },
+      config: { type: "string" },
+      target: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...args] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  // Only the scoring commands need the scoring provider's credentials
+  const config = loadConfig({
+    file: values.config,
+    requireScoring: command === "score" || command === "rescore",
+  });
+  const target = selectTarget(config, values.target);
+
+  switch (command) {
+    case "score":
+      await scoreGoal(config, target, parseGoalId(args[0]));
+      return;
+    case "rescore":
+      await rescore(config, target, parseGoalId(args[0]), values.submit);
+      return;
+    case "backfill":
+      if (!values["from-block"]) throw new UsageError("--from-block is required");
+      await backfill(
+        config,
+        target,
+        BigInt(values["from-block"]),
+        values["to-block"] ? BigInt(values["to-block"]) : undefined
+      );
+      return;
+    case "status":
+      await status(config, target, parseGoalId(args[0]));
+      return;
+    case "queue":
+      queueCommand(config, target, args[0], args[1], values.dead);
+      return;
+    case "whoami":
+      await whoami(target);
+      return;
+    case "config":
+      console.log(formatConfig(config));
+      return;
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`❌ ${error.message}\n\n${USAGE}`);
+  } else {
+    console.error("❌", error instanceof Error ? error.message : error);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,742 @@
+/**
+ * Verifier configuration.
+ * Settings come from an optional JSON file (CONFIG_FILE) with environment
+ * variables layered on top, and are validated once at startup, so a
+ * malformed key or a missing setting fails before the first proof instead of
+ * on it. The chain, scoring and IPFS modules receive their section of the
+ * result rather than reading process.env themselves.
+ */
+
+import { readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { z } from "zod";
+import {
+  NOTIFICATION_EVENT_TYPES,
+  type NotificationEventType,
+} from "./notifier";
+import {
+  DEFAULT_RETRY_POLICIES,
+  type FailureClass,
+  type RetryPolicy,
+} from "./queue";
+
+/**
+ * Raised when the configuration file or environment is invalid; the message
+ * lists every problem found
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+const address = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed 20-byte hex address")
+  .transform((value) => value as `0x${string}`);
+
+// Accepted with or without the 0x prefix, as before
+const privateKey = z
+  .string()
+  .transform((value) => (value.startsWith("0x") ? value : `0x${value}`))
+  .pipe(z.string().regex(/^0x[0-9a-fA-F]{64}$/, "must be 32 bytes of hex"))
+  .transform((value) => value as `0x${string}`);
+
+const httpUrl = z
+  .string()
+  .url()
+  .refine((value) => /^https?:\/\//.test(value), "must be an http(s) URL");
+
+const boolean = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((value) => value === "true"),
+]);
+
+const positiveInt = z.coerce.number().int().positive();
+const nonNegativeInt = z.coerce.number().int().nonnegative();
+/** Intervals where 0 turns the feature off */
+const intervalMs = nonNegativeInt;
+
+const eventFilter = z
+  .array(
+    z
+      .string()
+      .refine(
+        (name) => NOTIFICATION_EVENT_TYPES.includes(name as NotificationEventType),
+        (name) => ({ message: `unknown notification event type: ${name}` })
+      )
+      .transform((name) => name as NotificationEventType)
+  )
+  .optional()
+  .transform((names) => (names?.length ? names : undefined));
+
+const retryPolicy = z.object({
+  retryable: z.boolean(),
+  baseDelayMs: nonNegativeInt,
+  maxDelayMs: nonNegativeInt,
+});
+
+// A single deployment, used when `targets` is not set
+const chain = z
+  .object({
+    chainId: positiveInt.default(10143),
+    rpcUrl: httpUrl.default("https://testnet-rpc.monad.xyz"),
+    privateKey: privateKey.optional(),
+    contractAddress: address.optional(),
+  })
+  .default({});
+
+// One StakeYourGoal deployment the verifier serves
+const target = z.object({
+  /** Used in file names, metrics labels and API paths */
+  name: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/i, "must be letters, digits, - or _"),
+  chainId: positiveInt,
+  rpcUrl: httpUrl,
+  contractAddress: address,
+  verifierKey: privateKey,
+  /** StakeYourGoalSecure deployment signed verdicts are for (signature mode) */
+  verdictContractAddress: address.optional(),
+  /** First block to scan when there is no checkpoint; the head otherwise */
+  startBlock: z.coerce.bigint().nonnegative().optional(),
+});
+
+const failureClass = z
+  .string()
+  .refine(
+    (name) => name in DEFAULT_RETRY_POLICIES,
+    (name) => ({ message: `unknown failure class: ${name}` })
+  )
+  .transform((name) => name as FailureClass);
+
+// Model used when scoring.model is unset; "openai" has no default (the model
+// depends on the endpoint), so the schema requires one
+const DEFAULT_MODELS: Record<"groq" | "openai" | "fixture", string> = {
+  groq: "llama-3.3-70b-versatile",
+  openai: "",
+  fixture: "fixture",
+};
+
+// "groq" uses the Groq API; "openai" any OpenAI-compatible endpoint
+// (OpenAI, or a local llama.cpp/Ollama server); "fixture" scores
+// deterministically without a model, for tests and demos
+const scoring = z
+  .object({
+    provider: z.enum(["groq", "openai", "fixture"]).default("groq"),
+    groqApiKey: z.string().min(1).optional(),
+    /** API root of the OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 */
+    baseUrl: httpUrl.optional(),
+    apiKey: z.string().min(1).optional(),
+    /** JSON verdicts for the fixture provider, matched by goal/proof text */
+    fixturesFile: z.string().min(1).optional(),
+    /** Defaults to llama-3.3-70b-versatile on Groq; required for "openai" */
+    model: z.string().min(1).optional(),
+    /** Vision-capable model for image proofs; without one, images are OCR'd */
+    visionModel: z.string().min(1).optional(),
+    /** Longest side, in pixels, images are resized to before scoring */
+    maxImageDimension: positiveInt.default(1024),
+    /** tesseract.js language(s) for OCR, e.g. "eng" or "eng+hin" */
+    ocrLanguage: z.string().min(1).default("eng"),
+    /** Document (PDF/DOCX) text beyond this many characters is cut off */
+    maxDocumentChars: positiveInt.default(20_000),
+    /** Embedded document images sent to the vision model or OCR'd */
+    maxDocumentImages: nonNegativeInt.default(4),
+    maxTokens: positiveInt.default(300),
+    timeoutMs: positiveInt.default(60_000),
+    /** Retries with a correction after a reply that is not a valid verdict */
+    maxReasks: nonNegativeInt.default(2),
+    /** Second model call that screens the goal and proof for injection */
+    injectionClassifier: boolean.default(true),
+    /** "review" sends flagged proofs to a DAO vote, "cap" only blocks auto-complete */
+    manipulationPolicy: z.enum(["review", "cap"]).default("review"),
+    // Several judgements per proof, aggregated with a confidence measure
+    ensemble: z
+      .object({
+        /** Judgements per proof; 1 is a single call */
+        size: positiveInt.default(1),
+        /** Models judging text proofs alongside `model`, in turn */
+        models: z.array(z.string().min(1)).default([]),
+        /** Sampling temperature for the judgements; provider default when unset */
+        temperature: z.coerce.number().min(0).max(2).optional(),
+        /** Share of judgements that must agree on the outcome to auto-resolve */
+        minConfidence: z.coerce.number().min(0).max(1).default(0.8),
+      })
+      .default({}),
+    /** Proofs scored at once by scoreProofsBatch */
+    batchConcurrency: positiveInt.default(4),
+  })
+  .default({})
+  .superRefine((scoring, ctx) => {
+    if (scoring.provider !== "openai") return;
+    for (const key of ["baseUrl", "model"] as const) {
+      if (!scoring[key]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [key],
+          message: "Required",
+        });
+      }
+    }
+  })
+  .transform((scoring) => ({
+    ...scoring,
+    model: scoring.model ?? DEFAULT_MODELS[scoring.provider],
+  }));
+
+const configSchema = z
+  .object({
+    // "live" submits scores on-chain; "shadow" scores the same traffic but
+    // only records the would-be outcome and compares it with the primary's
+    mode: z.enum(["live", "shadow"]).default("live"),
+    shadowFile: z.string().min(1).default("data/shadow.json"),
+
+    chain,
+
+    // Several deployments served by one process, each with its own watcher,
+    // checkpoint, queue file and metrics label
+    targets: z.array(target).min(1).optional(),
+
+    scoring,
+
+    ipfs: z
+      .object({
+        gatewayUrl: httpUrl.default("https://gateway.pinata.cloud/ipfs"),
+        pinataJwt: z.string().min(1).optional(),
+        fetchTimeoutMs: positiveInt.default(30_000),
+      })
+      .default({}),
+
+    // How scores reach the chain: "transaction" calls setAIScore from the
+    // verifier wallet; "signature" signs a verdict for StakeYourGoalSecure
+    // that anyone can submit (relay also submits it from the verifier wallet).
+    // The Secure contract must hold the same goals under the same ids; a
+    // verdict is only signed when its goal has the same owner and description
+    verdict: z
+      .object({
+        mode: z.enum(["transaction", "signature"]).default("transaction"),
+        contractAddress: address.optional(),
+        relay: boolean.default(false),
+      })
+      .default({}),
+
+    // "member" instances score and sign attestations, a "coordinator"
+    // aggregates them (median) and submits; "off" scores alone
+    quorum: z
+      .object({
+        role: z.enum(["off", "member", "coordinator"]).default("off"),
+        // One vote per key: a member listed twice would count twice
+        members: z
+          .array(z.object({ url: httpUrl, address }))
+          .default([])
+          .refine(
+            (members) =>
+              new Set(members.map((member) => member.address.toLowerCase()))
+                .size === members.length,
+            { message: "member addresses must be unique" }
+          ),
+        minScores: positiveInt.default(2),
+        maxSpread: z.coerce.number().int().min(0).max(100).default(25),
+      })
+      .default({}),
+
+    eventLoop: z
+      .object({
+        checkpointFile: z.string().min(1).default("data/checkpoint.json"),
+        /** First block to scan when there is no checkpoint (`chain` only) */
+        startBlock: z.coerce.bigint().nonnegative().optional(),
+        logBlockRange: z.coerce.bigint().positive().default(100n),
+        pollIntervalMs: positiveInt.default(4000),
+        /** Blocks a ProofSubmitted log must be buried under before it is scored */
+        confirmations: nonNegativeInt.default(3),
+      })
+      .default({}),
+
+    // Confirmations, receipt wait before a fee bump, bump size
+    tx: z
+      .object({
+        confirmations: positiveInt.default(1),
+        receiptTimeoutMs: positiveInt.default(60_000),
+        feeBumpPercent: positiveInt.default(20),
+        maxReplacements: nonNegativeInt.default(3),
+      })
+      .default({}),
+
+    reconcile: z
+      .object({
+        onStart: boolean.default(true),
+        intervalMs: intervalMs.default(600_000),
+      })
+      .default({}),
+
+    // Expiry and vote keepers (never run in shadow mode or as a quorum member)
+    keepers: z
+      .object({
+        expiryIntervalMs: intervalMs.default(900_000),
+        voteIntervalMs: intervalMs.default(60_000),
+      })
+      .default({}),
+
+    queue: z
+      .object({
+        file: z.string().min(1).default("data/queue.json"),
+        concurrency: positiveInt.default(2),
+        maxAttempts: positiveInt.default(5),
+        /** How long done jobs stay in the queue file; 0 keeps them forever */
+        doneRetentionMs: z.coerce
+          .number()
+          .int()
+          .min(0)
+          .default(30 * 24 * 60 * 60_000),
+        /** Per failure class overrides of DEFAULT_RETRY_POLICIES */
+        retryPolicies: z
+          .record(failureClass, retryPolicy)
+          .default({})
+          .transform(
+            (overrides): Record<FailureClass, RetryPolicy> => ({
+              ...DEFAULT_RETRY_POLICIES,
+              ...overrides,
+            })
+          ),
+      })
+      .default({}),
+
+    // Port 0 disables the HTTP API
+    api: z
+      .object({
+        port: z.coerce.number().int().min(0).max(65_535).default(8787),
+        corsOrigin: z.string().min(1).default("*"),
+      })
+      .default({}),
+
+    // Postgres or SQLite per databaseUrl's scheme, SQLite at sqlitePath when unset
+    ledger: z
+      .object({
+        databaseUrl: z
+          .string()
+          .url()
+          .refine(
+            (value) => /^(postgres|postgresql|sqlite):/.test(value),
+            "must be a postgres://, postgresql:// or sqlite: URL"
+          )
+          .optional(),
+        sqlitePath: z.string().min(1).default("data/ledger.sqlite"),
+      })
+      .default({}),
+
+    notify: z
+      .object({
+        slackWebhookUrl: httpUrl.optional(),
+        slackEvents: eventFilter,
+        webhooks: z
+          .array(
+            z.object({
+              url: httpUrl,
+              secret: z.string().min(1).optional(),
+              events: eventFilter,
+            })
+          )
+          .default([]),
+        maxAttempts: positiveInt.default(5),
+      })
+      .default({}),
+  })
+  .superRefine((config, ctx) => {
+    if (config.targets) {
+      const names = config.targets.map((target) => target.name);
+      names.forEach((name, i) => {
+        if (names.indexOf(name) !== i) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["targets", i, "name"],
+            message: `duplicate target name: ${name}`,
+          });
+        }
+      });
+    } else {
+      for (const key of ["privateKey", "contractAddress"] as const) {
+        if (!config.chain[key]) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["chain", key],
+            message: "Required",
+          });
+        }
+      }
+    }
+    if (config.verdict.mode === "signature") {
+      // StakeYourGoal has no goalNonces or aiSigner: signature mode needs the
+      // Secure deployment named explicitly
+      const verdictTargets = config.targets
+        ? config.targets.map((target, i) => ({
+            path: ["targets", i, "verdictContractAddress"],
+            address: target.verdictContractAddress,
+            contractAddress: target.contractAddress,
+          }))
+        : [
+            {
+              path: ["verdict", "contractAddress"],
+              address: config.verdict.contractAddress,
+              contractAddress: config.chain.contractAddress,
+            },
+          ];
+      for (const { path, address, contractAddress } of verdictTargets) {
+        if (!address) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path,
+            message: "Required in signature mode",
+          });
+        } else if (address.toLowerCase() === contractAddress?.toLowerCase()) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path,
+            message: "must be the StakeYourGoalSecure deployment, not contractAddress",
+          });
+        }
+      }
+    }
+    if (
+      config.quorum.role === "coordinator" &&
+      config.quorum.members.length < config.quorum.minScores
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["quorum", "members"],
+        message: `lists ${config.quorum.members.length} member(s), fewer than minScores (${config.quorum.minScores})`,
+      });
+    }
+  })
+  .transform((config) => ({
+    ...config,
+    targets: resolveTargets(config),
+  }));
+
+/**
+ * Every target with its files resolved. Without `targets`, the `chain`
+ * section is a single target named "default" that keeps the configured file
+ * names; listed targets get their name added to each file name.
+ */
+function resolveTargets(config: {
+  chain: z.infer<typeof chain>;
+  targets?: z.infer<typeof target>[];
+  verdict: { contractAddress?: `0x${string}` };
+  eventLoop: { checkpointFile: string; startBlock?: bigint };
+  queue: { file: string };
+  shadowFile: string;
+}) {
+  if (!config.targets) {
+    const { chainId, rpcUrl, privateKey, contractAddress } = config.chain;
+    return [
+      {
+        name: "default",
+        chainId,
+        rpcUrl,
+        contractAddress: contractAddress!,
+        verifierKey: privateKey!,
+        verdictContractAddress: config.verdict.contractAddress,
+        startBlock: config.eventLoop.startBlock,
+        checkpointFile: config.eventLoop.checkpointFile,
+        queueFile: config.queue.file,
+        shadowFile: config.shadowFile,
+      },
+    ];
+  }
+
+  return config.targets.map((target) => ({
+    ...target,
+    checkpointFile: withTargetName(config.eventLoop.checkpointFile, target.name),
+    queueFile: withTargetName(config.queue.file, target.name),
+    shadowFile: withTargetName(config.shadowFile, target.name),
+  }));
+}
+
+/** "data/queue.json" → "data/queue.staging.json" */
+function withTargetName(path: string, name: string): string {
+  const ext = extname(path);
+  return `${path.slice(0, path.length - ext.length)}.${name}${ext}`;
+}
+
+export type VerifierConfig = z.infer<typeof configSchema>;
+export type TargetConfig = VerifierConfig["targets"][number];
+export type ScoringConfig = VerifierConfig["scoring"];
+export type IPFSConfig = VerifierConfig["ipfs"];
+
+type EnvFormat = "string" | "json" | "list";
+
+// Environment variable → config path; env values override the config file
+const ENV_VARS: Array<[name: string, path: string, format?: EnvFormat]> = [
+  ["VERIFIER_MODE", "mode"],
+  ["SHADOW_FILE", "shadowFile"],
+  ["CHAIN_ID", "chain.chainId"],
+  ["RPC_URL", "chain.rpcUrl"],
+  ["PRIVATE_KEY", "chain.privateKey"],
+  ["CONTRACT_ADDRESS", "chain.contractAddress"],
+  ["TARGETS", "targets", "json"],
+  ["SCORING_PROVIDER", "scoring.provider"],
+  ["GROQ_API_KEY", "scoring.groqApiKey"],
+  ["SCORING_BASE_URL", "scoring.baseUrl"],
+  ["SCORING_API_KEY", "scoring.apiKey"],
+  ["SCORING_FIXTURES_FILE", "scoring.fixturesFile"],
+  ["SCORING_MODEL", "scoring.model"],
+  ["SCORING_VISION_MODEL", "scoring.visionModel"],
+  ["SCORING_MAX_IMAGE_DIMENSION", "scoring.maxImageDimension"],
+  ["SCORING_OCR_LANGUAGE", "scoring.ocrLanguage"],
+  ["SCORING_MAX_DOCUMENT_CHARS", "scoring.maxDocumentChars"],
+  ["SCORING_MAX_DOCUMENT_IMAGES", "scoring.maxDocumentImages"],
+  ["SCORING_MAX_TOKENS", "scoring.maxTokens"],
+  ["SCORING_TIMEOUT_MS", "scoring.timeoutMs"],
+  ["SCORING_MAX_REASKS", "scoring.maxReasks"],
+  ["SCORING_INJECTION_CLASSIFIER", "scoring.injectionClassifier"],
+  ["SCORING_MANIPULATION_POLICY", "scoring.manipulationPolicy"],
+  ["SCORING_ENSEMBLE_SIZE", "scoring.ensemble.size"],
+  ["SCORING_ENSEMBLE_MODELS", "scoring.ensemble.models", "list"],
+  ["SCORING_ENSEMBLE_TEMPERATURE", "scoring.ensemble.temperature"],
+  ["SCORING_ENSEMBLE_MIN_CONFIDENCE", "scoring.ensemble.minConfidence"],
+  ["SCORING_BATCH_CONCURRENCY", "scoring.batchConcurrency"],
+  ["IPFS_GATEWAY_URL", "ipfs.gatewayUrl"],
+  ["PINATA_JWT", "ipfs.pinataJwt"],
+  ["IPFS_FETCH_TIMEOUT_MS", "ipfs.fetchTimeoutMs"],
+  ["VERDICT_MODE", "verdict.mode"],
+  ["VERDICT_CONTRACT_ADDRESS", "verdict.contractAddress"],
+  ["VERDICT_RELAY", "verdict.relay"],
+  ["QUORUM_ROLE", "quorum.role"],
+  ["QUORUM_MEMBERS", "quorum.members", "json"],
+  ["QUORUM_MIN_SCORES", "quorum.minScores"],
+  ["QUORUM_MAX_SPREAD", "quorum.maxSpread"],
+  ["CHECKPOINT_FILE", "eventLoop.checkpointFile"],
+  ["START_BLOCK", "eventLoop.startBlock"],
+  ["LOG_BLOCK_RANGE", "eventLoop.logBlockRange"],
+  ["POLL_INTERVAL_MS", "eventLoop.pollIntervalMs"],
+  ["PROOF_CONFIRMATIONS", "eventLoop.confirmations"],
+  ["TX_CONFIRMATIONS", "tx.confirmations"],
+  ["TX_RECEIPT_TIMEOUT_MS", "tx.receiptTimeoutMs"],
+  ["TX_FEE_BUMP_PERCENT", "tx.feeBumpPercent"],
+  ["TX_MAX_REPLACEMENTS", "tx.maxReplacements"],
+  ["RECONCILE_ON_START", "reconcile.onStart"],
+  ["RECONCILE_INTERVAL_MS", "reconcile.intervalMs"],
+  ["EXPIRY_INTERVAL_MS", "keepers.expiryIntervalMs"],
+  ["VOTE_KEEPER_INTERVAL_MS", "keepers.voteIntervalMs"],
+  ["QUEUE_FILE", "queue.file"],
+  ["QUEUE_CONCURRENCY", "queue.concurrency"],
+  ["QUEUE_MAX_ATTEMPTS", "queue.maxAttempts"],
+  ["QUEUE_DONE_RETENTION_MS", "queue.doneRetentionMs"],
+  ["QUEUE_RETRY_POLICIES", "queue.retryPolicies", "json"],
+  ["API_PORT", "api.port"],
+  ["API_CORS_ORIGIN", "api.corsOrigin"],
+  ["DATABASE_URL", "ledger.databaseUrl"],
+  ["LEDGER_SQLITE_PATH", "ledger.sqlitePath"],
+  ["SLACK_WEBHOOK_URL", "notify.slackWebhookUrl"],
+  ["SLACK_EVENTS", "notify.slackEvents", "list"],
+  ["NOTIFY_WEBHOOKS", "notify.webhooks", "json"],
+  ["NOTIFY_MAX_ATTEMPTS", "notify.maxAttempts"],
+];
+
+// Redacted when the config is printed
+const SECRET_PATHS = [
+  "chain.privateKey",
+  "scoring.groqApiKey",
+  "scoring.apiKey",
+  "ipfs.pinataJwt",
+  "ledger.databaseUrl",
+];
+
+// URLs that may carry an API key or token in their path, query or userinfo
+// (RPC providers, model APIs, IPFS gateways, Slack and webhook endpoints);
+// only the origin is shown
+const SECRET_URL_PATHS = [
+  "chain.rpcUrl",
+  "scoring.baseUrl",
+  "ipfs.gatewayUrl",
+  "notify.slackWebhookUrl",
+];
+
+type RawConfig = Record<string, unknown>;
+
+function setPath(target: RawConfig, path: string, value: unknown): void {
+  const keys = path.split(".");
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    if (typeof child !== "object" || child === null || Array.isArray(child)) {
+      node[key] = {};
+    }
+    node = node[key] as RawConfig;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function readConfigFile(path: string): RawConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new ConfigError(
+      `Cannot read config file ${path}: ${(error as Error).message}`
+    );
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new ConfigError(
+      `Config file ${path} is not valid JSON: ${(error as Error).message}`
+    );
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new ConfigError(`Config file ${path} must contain a JSON object`);
+  }
+  return data as RawConfig;
+}
+
+function applyEnv(target: RawConfig, env: NodeJS.ProcessEnv): void {
+  for (const [name, path, format = "string"] of ENV_VARS) {
+    const value = env[name];
+    if (value === undefined || value === "") continue;
+
+    if (format === "json") {
+      try {
+        setPath(target, path, JSON.parse(value));
+      } catch (error) {
+        throw new ConfigError(
+          `${name} is not valid JSON: ${(error as Error).message}`
+        );
+      }
+    } else if (format === "list") {
+      setPath(
+        target,
+        path,
+        value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean)
+      );
+    } else {
+      setPath(target, path, value);
+    }
+  }
+}
+
+/** "chain.privateKey (PRIVATE_KEY)" for error messages */
+function describePath(path: (string | number)[]): string {
+  const dotted = path.join(".");
+  const env = ENV_VARS.find(
+    ([, envPath]) => dotted === envPath || dotted.startsWith(`${envPath}.`)
+  );
+  return env ? `${dotted} (${env[0]})` : dotted || "config";
+}
+
+export interface LoadConfigOptions {
+  /** JSON config file; defaults to CONFIG_FILE, none if unset */
+  file?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Require the scoring provider's key; off for commands that never score */
+  requireScoring?: boolean;
+}
+
+/**
+ * Read the config file, apply environment overrides and validate the result.
+ * Throws a ConfigError listing every invalid or missing setting.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): VerifierConfig {
+  const config = parseConfig(configSchema, options);
+  // A coordinator only aggregates member scores, so it never calls the LLM
+  if ((options.requireScoring ?? true) && config.quorum.role !== "coordinator") {
+    requireScoringKey(config.scoring);
+  }
+  return config;
+}
+
+/**
+ * Only the `scoring` section, for tools that score proofs without a chain
+ * (e.g. the adversarial corpus). Reads the same file and variables as
+ * loadConfig.
+ */
+export function loadScoringConfig(
+  options: Omit<LoadConfigOptions, "requireScoring"> = {}
+): ScoringConfig {
+  const { scoring: config } = parseConfig(z.object({ scoring }), options);
+  requireScoringKey(config);
+  return config;
+}
+
+function parseConfig<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: LoadConfigOptions
+): T {
+  const env = options.env ?? process.env;
+  const file = options.file ?? env.CONFIG_FILE;
+
+  const raw = file ? readConfigFile(file) : {};
+  applyEnv(raw, env);
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - ${describePath(issue.path)}: ${issue.message}`
+    );
+    throw new ConfigError(`Invalid configuration:\n${problems.join("\n")}`);
+  }
+  return result.data;
+}
+
+function requireScoringKey(config: ScoringConfig): void {
+  if (config.provider === "groq" && !config.groqApiKey) {
+    throw new ConfigError(
+      "Invalid configuration:\n  - scoring.groqApiKey (GROQ_API_KEY): required"
+    );
+  }
+}
+
+/**
+ * The effective config as a plain object with secrets masked
+ */
+export function redactConfig(config: VerifierConfig): Record<string, unknown> {
+  const copy = JSON.parse(
+    JSON.stringify(config, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  ) as RawConfig;
+
+  const redact = (path: string, mask: (value: string) => string) => {
+    const keys = path.split(".");
+    const parent = keys
+      .slice(0, -1)
+      .reduce<RawConfig | undefined>(
+        (node, key) => node?.[key] as RawConfig | undefined,
+        copy
+      );
+    const key = keys[keys.length - 1];
+    if (parent?.[key] !== undefined) parent[key] = mask(parent[key] as string);
+  };
+  for (const path of SECRET_PATHS) redact(path, () => "***");
+  for (const path of SECRET_URL_PATHS) redact(path, redactUrl);
+
+  for (const webhook of (copy.notify as RawConfig).webhooks as RawConfig[]) {
+    webhook.url = redactUrl(webhook.url as string);
+    if (webhook.secret !== undefined) webhook.secret = "***";
+  }
+  for (const member of (copy.quorum as RawConfig).members as RawConfig[]) {
+    member.url = redactUrl(member.url as string);
+  }
+  for (const target of copy.targets as RawConfig[]) {
+    target.rpcUrl = redactUrl(target.rpcUrl as string);
+    target.verifierKey = "***";
+  }
+  return copy;
+}
+
+/** "https://rpc.example.com/v2/KEY" → "https://rpc.example.com/***" */
+function redactUrl(url: string): string {
+  const { origin, pathname, search, username } = new URL(url);
+  return pathname === "/" && !search && !username ? origin : `${origin}/***`;
+}
+
+/**
+ * Redacted effective config, for startup logs and `timevault-verifier config`
+ */
+export function formatConfig(config: VerifierConfig): string {
+  return JSON.stringify(redactConfig(config), null, 2);
+}
@@ -0,0 +1,80 @@
+/**
+ * Ensemble scoring.
+ * Several judgements of one proof (different models or prompt variants) are
+ * combined into one score with a confidence measure. A single call decides
+ * goals that sit right at the 40 and 75 thresholds; when the judgements do
+ * not agree on the outcome, the score is moved into the DAO vote range
+ * (40-74) instead, as a disputed quorum is.
+ */
+
+import { clampToVoteRange, scoreOutcome } from "./chain";
+import { median } from "./quorum";
+
+export interface EnsembleJudgement {
+  model: string;
+  /** Prompt variant the judgement was asked with */
+  variant: string;
+  /** Null when the model gave no valid verdict */
+  score: number | null;
+}
+
+export interface EnsembleResult {
+  /** Score to submit */
+  score: number;
+  /** Median of the valid judgements */
+  median: number;
+  /** Max - min of the valid judgements */
+  spread: number;
+  /** Standard deviation of the valid judgements */
+  stdDev: number;
+  /**
+   * Share of all judgements, invalid ones included, whose outcome (complete,
+   * fail or vote) matches the median's
+   */
+  confidence: number;
+  /** Confidence was below the minimum, so the median was moved into the vote range */
+  lowConfidence: boolean;
+  judgements: EnsembleJudgement[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Median of the judgements, clamped into the DAO vote range when fewer than
+ * `minConfidence` of them agree with its outcome. At least one judgement
+ * must have a score.
+ */
+export function aggregateJudgements(
+  judgements: EnsembleJudgement[],
+  minConfidence: number
+): EnsembleResult {
+  const values = judgements
+    .map((judgement) => judgement.score)
+    .filter((score) => score !== null);
+  if (values.length === 0) {
+    throw new Error("No valid judgements to aggregate");
+  }
+
+  const mid = median(values);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance =
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const agreeing = values.filter(
+    (value) => scoreOutcome(value) === scoreOutcome(mid)
+  ).length;
+  const confidence = agreeing / judgements.length;
+  const lowConfidence = confidence < minConfidence;
+  const score = lowConfidence ? clampToVoteRange(mid) : mid;
+
+  return {
+    score,
+    median: mid,
+    spread: Math.max(...values) - Math.min(...values),
+    stdDev: round(Math.sqrt(variance)),
+    confidence: round(confidence),
+    lowConfidence,
+    judgements,
+  };
+}
@@ -0,0 +1,331 @@
+#!/usr/bin/env node
+/**
+ * Offline evaluation of the proof scorer.
+ * Scores a labelled dataset (corpus/eval.json) with the configured provider
+ * and reports accuracy per category, a confusion matrix over the fail / vote
+ * / complete bands and, given a stored baseline, the cases that regressed.
+ *
+ * Uses the deterministic fixture provider unless SCORING_PROVIDER says
+ * otherwise, e.g. a local model:
+ *   SCORING_PROVIDER=openai SCORING_BASE_URL=http://localhost:11434/v1 \
+ *   SCORING_MODEL=llama3.1 npm run eval -- --baseline baseline.json
+ */
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { scoreOutcome, type ScoreOutcome } from "./chain";
+import { loadScoringConfig } from "./config";
+import { extractProof, type ExtractedProof } from "./extract";
+import { detectContentType } from "./ipfs";
+import { GOAL_CATEGORIES, type GoalCategory } from "./rubrics";
+import { PROMPT_VERSION, scoreProofsBatch } from "./scoring";
+
+const USAGE = `Usage: npm run eval -- [dataset] [--baseline <file>] [--write-baseline <file>] [--report <file>]
+
+  dataset                  Dataset file (default corpus/eval.json)
+  --baseline <file>        Compare with a stored run; exits 1 on regressions
+  --write-baseline <file>  Store this run as a baseline
+  --report <file>          Write the full report as JSON`;
+
+const OUTCOMES: ScoreOutcome[] = ["fail", "vote", "complete"];
+
+const score = z.number().int().min(0).max(100);
+
+// Bump `version` whenever cases are added, removed or relabelled
+const datasetSchema = z.object({
+  name: z.string().min(1),
+  version: z.number().int().positive(),
+  cases: z
+    .array(
+      z
+        .object({
+          id: z.string().min(1),
+          category: z.enum(GOAL_CATEGORIES),
+          goal: z.string().min(1),
+          /** Proof payload as uploaded: text, markdown or JSON */
+          proof: z.string().optional(),
+          /** Or a file (PDF, DOCX, image...) relative to the dataset */
+          proofFile: z.string().min(1).optional(),
+          expect: z
+            .object({
+              /** Band the score should fall in */
+              outcome: z.enum(["fail", "vote", "complete"]),
+              /** Tighter range within the band, when the label is that precise */
+              min: score.optional(),
+              max: score.optional(),
+            })
+            .refine(
+              ({ min, max }) =>
+                min === undefined || max === undefined || min <= max,
+              { message: "min is above max" }
+            ),
+        })
+        .refine(
+          (c) => (c.proof === undefined) !== (c.proofFile === undefined),
+          { message: "needs exactly one of proof and proofFile" }
+        )
+    )
+    .min(1)
+    .refine((cases) => new Set(cases.map((c) => c.id)).size === cases.length, {
+      message: "case ids must be unique",
+    }),
+});
+
+type Dataset = z.infer<typeof datasetSchema>;
+type EvalCase = Dataset["cases"][number];
+
+interface CaseResult {
+  id: string;
+  category: GoalCategory;
+  expected: ScoreOutcome;
+  /** Null when the proof could not be extracted */
+  score: number | null;
+  outcome: ScoreOutcome | null;
+  correct: boolean;
+  /** Whether the score is within expect.min/max; null when no range is set */
+  inRange: boolean | null;
+  reason: string;
+}
+
+interface Baseline {
+  dataset: string;
+  datasetVersion: number;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  createdAt: string;
+  results: Record<
+    string,
+    { score: number | null; outcome: ScoreOutcome | null; correct: boolean }
+  >;
+}
+
+function loadDataset(path: string): Dataset {
+  const result = datasetSchema.safeParse(JSON.parse(readFileSync(path, "utf8")));
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - ${issue.path.join(".")}: ${issue.message}`
+    );
+    throw new Error(`Invalid dataset ${path}:\n${problems.join("\n")}`);
+  }
+  return result.data;
+}
+
+/** The payload as the verifier would fetch it from IPFS */
+function readPayload(testCase: EvalCase, datasetDir: string) {
+  const data = testCase.proofFile
+    ? readFileSync(resolve(datasetDir, testCase.proofFile))
+    : Buffer.from(testCase.proof!, "utf8");
+  return { data, contentType: detectContentType(data, null) };
+}
+
+function percent(count: number, total: number): string {
+  return total ? `${Math.round((count / total) * 100)}%` : "-";
+}
+
+function printConfusionMatrix(results: CaseResult[]) {
+  const width = 10;
+  console.log("\nConfusion matrix (rows: expected, columns: scored):");
+  console.log(
+    `  ${"".padEnd(width)}${[...OUTCOMES, "error"].map((o) => o.padStart(width)).join("")}`
+  );
+  for (const expected of OUTCOMES) {
+    const row = results.filter((r) => r.expected === expected);
+    const cells = [...OUTCOMES, null].map((outcome) =>
+      String(row.filter((r) => r.outcome === outcome).length).padStart(width)
+    );
+    console.log(`  ${expected.padEnd(width)}${cells.join("")}`);
+  }
+}
+
+function printCategories(results: CaseResult[]) {
+  console.log("\nPer category:");
+  for (const category of GOAL_CATEGORIES) {
+    const inCategory = results.filter((r) => r.category === category);
+    if (!inCategory.length) continue;
+    const correct = inCategory.filter((r) => r.correct).length;
+    console.log(
+      `  ${category.padEnd(10)} ${`${correct}/${inCategory.length}`.padStart(6)}  ${percent(correct, inCategory.length).padStart(4)}`
+    );
+  }
+}
+
+/**
+ * Cases the baseline got right and this run gets wrong (regressions), and the
+ * reverse (improvements)
+ */
+function compareWithBaseline(results: CaseResult[], baseline: Baseline) {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  for (const result of results) {
+    const before = baseline.results[result.id];
+    if (!before || before.correct === result.correct) continue;
+    const change = `${result.id}: ${before.outcome ?? "error"} (${before.score ?? "-"}) → ${result.outcome ?? "error"} (${result.score ?? "-"}), expected ${result.expected}`;
+    (result.correct ? improvements : regressions).push(change);
+  }
+  return { regressions, improvements };
+}
+
+async function main(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      baseline: { type: "string" },
+      "write-baseline": { type: "string" },
+      report: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const datasetPath =
+    positionals[0] ??
+    fileURLToPath(new URL("./corpus/eval.json", import.meta.url));
+  const dataset = loadDataset(datasetPath);
+  // Not loading .env: an evaluation should not hit a paid API by accident
+  const config = loadScoringConfig({
+    env: { SCORING_PROVIDER: "fixture", ...process.env },
+  });
+  console.log(
+    `📏 Evaluating ${dataset.name} v${dataset.version}: ${dataset.cases.length} case(s), ${config.provider}/${config.model}, prompt ${PROMPT_VERSION}\n`
+  );
+
+  // One at a time: OCR and PDF parsing are memory-hungry. Extraction
+  // failures are results too, the verifier would not score those proofs.
+  const extracted: Array<ExtractedProof | Error> = [];
+  for (const testCase of dataset.cases) {
+    extracted.push(
+      await extractProof(
+        config,
+        readPayload(testCase, dirname(datasetPath))
+      ).catch((error: Error) => error)
+    );
+  }
+  const scorable = dataset.cases.flatMap((testCase, i) => {
+    const proof = extracted[i];
+    return proof instanceof Error
+      ? []
+      : [
+          {
+            id: testCase.id,
+            goalDescription: testCase.goal,
+            proofText: proof.text,
+            images: proof.images,
+            category: GOAL_CATEGORIES.indexOf(testCase.category),
+          },
+        ];
+  });
+  const scores = await scoreProofsBatch(config, scorable);
+  const scoreById = new Map(scorable.map((s, i) => [s.id, scores[i]]));
+
+  const results: CaseResult[] = dataset.cases.map((testCase, i) => {
+    const { outcome: expected, min, max } = testCase.expect;
+    const scored = scoreById.get(testCase.id);
+    if (!scored) {
+      return {
+        id: testCase.id,
+        category: testCase.category,
+        expected,
+        score: null,
+        outcome: null,
+        correct: false,
+        inRange: null,
+        reason: `Extraction failed: ${(extracted[i] as Error).message}`,
+      };
+    }
+    const outcome = scoreOutcome(scored.score);
+    const ranged = min !== undefined || max !== undefined;
+    return {
+      id: testCase.id,
+      category: testCase.category,
+      expected,
+      score: scored.score,
+      outcome,
+      correct: outcome === expected,
+      inRange: ranged
+        ? scored.score >= (min ?? 0) && scored.score <= (max ?? 100)
+        : null,
+      reason: scored.reason,
+    };
+  });
+
+  for (const r of results) {
+    const got = r.outcome ? `${r.outcome} (${r.score})` : "error";
+    const range = r.inRange === false ? ", outside expected range" : "";
+    console.log(
+      `${r.correct ? "✅" : "❌"} ${r.id.padEnd(28)} ${r.category.padEnd(9)} expected ${r.expected.padEnd(8)} got ${got}${range}`
+    );
+  }
+  printCategories(results);
+  printConfusionMatrix(results);
+
+  const correct = results.filter((r) => r.correct).length;
+  const ranged = results.filter((r) => r.inRange !== null);
+  console.log(
+    `\nAccuracy: ${correct}/${results.length} (${percent(correct, results.length)})`
+  );
+  if (ranged.length) {
+    const inRange = ranged.filter((r) => r.inRange).length;
+    console.log(`Within expected range: ${inRange}/${ranged.length}`);
+  }
+
+  const baseline: Baseline = {
+    dataset: dataset.name,
+    datasetVersion: dataset.version,
+    provider: config.provider,
+    model: config.model,
+    promptVersion: PROMPT_VERSION,
+    createdAt: new Date().toISOString(),
+    results: Object.fromEntries(
+      results.map(({ id, score, outcome, correct }) => [
+        id,
+        { score, outcome, correct },
+      ])
+    ),
+  };
+
+  let regressions: string[] = [];
+  if (values.baseline) {
+    const stored = JSON.parse(readFileSync(values.baseline, "utf8")) as Baseline;
+    console.log(
+      `\nBaseline: ${stored.provider}/${stored.model}, prompt ${stored.promptVersion}, dataset v${stored.datasetVersion}, ${stored.createdAt}`
+    );
+    if (stored.datasetVersion !== dataset.version) {
+      console.warn("⚠️  The baseline is for another dataset version; only matching case ids are compared");
+    }
+    const comparison = compareWithBaseline(results, stored);
+    regressions = comparison.regressions;
+    for (const [label, changes] of [
+      ["Regressions", comparison.regressions],
+      ["Improvements", comparison.improvements],
+    ] as const) {
+      console.log(`${label}: ${changes.length}`);
+      for (const change of changes) console.log(`  - ${change}`);
+    }
+  }
+
+  if (values.report) {
+    writeFileSync(
+      values.report,
+      JSON.stringify({ ...baseline, cases: results, regressions }, null, 2)
+    );
+    console.log(`\n📝 Report written to ${values.report}`);
+  }
+  if (values["write-baseline"]) {
+    writeFileSync(values["write-baseline"], `${JSON.stringify(baseline, null, 2)}\n`);
+    console.log(`💾 Baseline written to ${values["write-baseline"]}`);
+  }
+  if (regressions.length) process.exit(1);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error("❌", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,321 @@
+/**
+ * Proof extraction: turn the bytes fetched from IPFS into what the scoring
+ * model sees. Text and JSON proofs are parsed as before; images are resized
+ * and re-encoded for a vision model, or read with OCR when only a text
+ * model is configured. PDF and DOCX documents become a page-by-page text
+ * summary plus their embedded images.
+ */
+
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import sharp from "sharp";
+import { createWorker } from "tesseract.js";
+import { extractImages, extractText, getDocumentProxy } from "unpdf";
+import type { ScoringConfig } from "./config";
+import {
+  DOC_TYPE,
+  DOCX_TYPE,
+  PDF_TYPE,
+  parseProofContent,
+  type FetchedProof,
+} from "./ipfs";
+
+// Language data downloaded by tesseract.js on first use
+const OCR_CACHE_DIR = "data/tesseract";
+
+// Smaller embedded images are icons, bullets or rules, not evidence
+const MIN_EMBEDDED_IMAGE_SIDE = 100;
+
+// Images in a DOCX package that sharp can decode (not EMF/WMF drawings)
+const DOCX_MEDIA = /^word\/media\/[^/]+\.(png|jpe?g|gif|webp|tiff?)$/i;
+
+/**
+ * Raised when a proof's content cannot be decoded
+ */
+export class ProofExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProofExtractionError";
+  }
+}
+
+export interface ProofImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface DocumentSummary {
+  format: "pdf" | "docx";
+  /** Null for DOCX files that do not record a page count */
+  pages: number | null;
+  /** Embedded images passed on, at most `maxDocumentImages` */
+  images: number;
+}
+
+export interface ExtractedProof {
+  /** Proof text, the text OCR found in an image, or a document summary */
+  text: string;
+  /** Normalized images, sent to the vision model */
+  images: ProofImage[];
+  /** "text", "image" (scored by the vision model), "ocr" or "document" */
+  source: "text" | "image" | "ocr" | "document";
+  /** Set for PDF and DOCX proofs */
+  document?: DocumentSummary;
+}
+
+interface ParsedDocument {
+  summary: DocumentSummary;
+  /** Text of each PDF page, or the whole DOCX body */
+  sections: string[];
+  /** Embedded images, encoded but not yet normalized */
+  images: Buffer[];
+}
+
+export function isImage(contentType: string): boolean {
+  return contentType.startsWith("image/");
+}
+
+export function isDocument(contentType: string): boolean {
+  return [PDF_TYPE, DOCX_TYPE, DOC_TYPE].includes(contentType);
+}
+
+/**
+ * Decode an image, apply its EXIF orientation, fit it within `maxDimension`
+ * pixels and re-encode it as JPEG without metadata
+ */
+export async function normalizeImage(
+  data: Buffer,
+  maxDimension: number
+): Promise<ProofImage> {
+  try {
+    const normalized = await sharp(data)
+      .rotate()
+      .resize({
+        width: maxDimension,
+        height: maxDimension,
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+    return { data: normalized, contentType: "image/jpeg" };
+  } catch (error) {
+    throw new ProofExtractionError(`Cannot decode image proof: ${error}`);
+  }
+}
+
+async function readImageText(image: Buffer, language: string): Promise<string> {
+  let worker;
+  try {
+    // Languages are loaded separately: if createWorker itself fails to
+    // download them, its promise never settles. The handler stops
+    // tesseract.js rethrowing job errors outside the promise chain.
+    worker = await createWorker([], undefined, {
+      cachePath: OCR_CACHE_DIR,
+      errorHandler: () => {},
+    });
+    await worker.reinitialize(language);
+    const { data } = await worker.recognize(image);
+    return data.text.trim();
+  } catch (error) {
+    throw new ProofExtractionError(`OCR failed: ${error}`);
+  } finally {
+    await worker?.terminate();
+  }
+}
+
+async function readPdf(
+  data: Buffer,
+  maxImages: number
+): Promise<ParsedDocument> {
+  // verbosity 0: errors only, PDF.js warns about every malformed file
+  const pdf = await getDocumentProxy(new Uint8Array(data), { verbosity: 0 });
+  try {
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const images: Buffer[] = [];
+    for (let page = 1; page <= totalPages && images.length < maxImages; page++) {
+      for (const image of await extractImages(pdf, page)) {
+        if (Math.min(image.width, image.height) < MIN_EMBEDDED_IMAGE_SIDE) {
+          continue;
+        }
+        const { width, height, channels } = image;
+        images.push(
+          await sharp(Buffer.from(image.data), {
+            raw: { width, height, channels },
+          })
+            .png()
+            .toBuffer()
+        );
+        if (images.length === maxImages) break;
+      }
+    }
+    return {
+      summary: { format: "pdf", pages: totalPages, images: images.length },
+      sections: text,
+      images,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+async function readDocx(
+  data: Buffer,
+  maxImages: number
+): Promise<ParsedDocument> {
+  const zip = await JSZip.loadAsync(data);
+  const { value: text } = await mammoth.extractRawText({ buffer: data });
+
+  // Word stores the page count it last laid out; DOCX has no pages otherwise
+  const properties = await zip.file("docProps/app.xml")?.async("string");
+  const pages = properties?.match(/<Pages>(\d+)<\/Pages>/)?.[1];
+
+  const images: Buffer[] = [];
+  for (const file of zip.file(DOCX_MEDIA)) {
+    if (images.length === maxImages) break;
+    const image = await file.async("nodebuffer");
+    const { width = 0, height = 0 } = await sharp(image)
+      .metadata()
+      .catch(() => ({ width: 0, height: 0 }));
+    if (Math.min(width, height) >= MIN_EMBEDDED_IMAGE_SIDE) images.push(image);
+  }
+
+  return {
+    summary: {
+      format: "docx",
+      pages: pages ? Number(pages) : null,
+      images: images.length,
+    },
+    sections: [text],
+    images,
+  };
+}
+
+async function readDocument(
+  proof: FetchedProof,
+  maxImages: number
+): Promise<ParsedDocument> {
+  if (proof.contentType === DOC_TYPE) {
+    throw new ProofExtractionError(
+      "Legacy .doc proofs are not supported; upload a PDF or DOCX"
+    );
+  }
+  const format = proof.contentType === PDF_TYPE ? "PDF" : "DOCX";
+  try {
+    return format === "PDF"
+      ? await readPdf(proof.data, maxImages)
+      : await readDocx(proof.data, maxImages);
+  } catch (error) {
+    throw new ProofExtractionError(`Cannot read ${format} proof: ${error}`);
+  }
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * "[PDF document: 2 pages, 1 embedded image]" followed by the text of each
+ * page, cut off after `maxChars` characters
+ */
+function summarizeDocument(document: ParsedDocument, maxChars: number): string {
+  const { format, pages, images } = document.summary;
+  const kind = format === "pdf" ? "PDF document" : "Word document";
+  const counts = [plural(images, "embedded image")];
+  if (pages !== null) counts.unshift(plural(pages, "page"));
+  let body =
+    format === "pdf"
+      ? document.sections
+          .map((text, i) => {
+            return `--- Page ${i + 1} ---\n${text.trim() || "(no text)"}`;
+          })
+          .join("\n\n")
+      : document.sections.join("\n").trim() || "(no text)";
+  if (body.length > maxChars) {
+    body = `${body.slice(0, maxChars)}\n[... ${body.length - maxChars} more characters not shown]`;
+  }
+  return `[${kind}: ${counts.join(", ")}]\n${body}`;
+}
+
+async function extractDocument(
+  config: ScoringConfig,
+  proof: FetchedProof
+): Promise<ExtractedProof> {
+  const document = await readDocument(proof, config.maxDocumentImages);
+  const images = await Promise.all(
+    document.images.map((image) =>
+      normalizeImage(image, config.maxImageDimension)
+    )
+  );
+  let text = summarizeDocument(document, config.maxDocumentChars);
+  if (config.visionModel) {
+    return { text, images, source: "document", document: document.summary };
+  }
+
+  // Text-only model: a scanned certificate is only images, so read them
+  const hasText = document.sections.some((section) => section.trim());
+  if (!hasText) {
+    for (const [i, image] of images.entries()) {
+      const imageText = await readImageText(image.data, config.ocrLanguage);
+      text += `\n\n[Embedded image ${i + 1}; text read by OCR]\n${imageText || "(no readable text)"}`;
+    }
+  }
+  return { text, images: [], source: "document", document: document.summary };
+}
+
+/**
+ * What the scoring model should see for a fetched proof
+ */
+export async function extractProof(
+  config: ScoringConfig,
+  proof: FetchedProof
+): Promise<ExtractedProof> {
+  if (isDocument(proof.contentType)) {
+    return extractDocument(config, proof);
+  }
+  if (!isImage(proof.contentType)) {
+    return {
+      text: parseProofContent(proof.data.toString("utf8")),
+      images: [],
+      source: "text",
+    };
+  }
+
+  const image = await normalizeImage(proof.data, config.maxImageDimension);
+  if (config.visionModel) {
+    return { text: "", images: [image], source: "image" };
+  }
+
+  // Text-only model: score what OCR can read from the image
+  const text = await readImageText(image.data, config.ocrLanguage);
+  return {
+    text: text
+      ? `[Image proof; text read by OCR]\n${text}`
+      : "[Image proof; OCR found no readable text]",
+    images: [],
+    source: "ocr",
+  };
+}
+
+/** "245 characters of text", "PDF, 2 pages, 1830 characters", ... for logs */
+export function describeProof(proof: ExtractedProof): string {
+  switch (proof.source) {
+    case "text":
+      return `${proof.text.length} characters of text`;
+    case "image":
+      return `${proof.images.length} image(s) for the vision model`;
+    case "ocr":
+      return `image, ${proof.text.length} characters after OCR`;
+    case "document": {
+      const { format, pages } = proof.document!;
+      const parts = [format.toUpperCase()];
+      if (pages !== null) parts.push(plural(pages, "page"));
+      parts.push(`${proof.text.length} characters`);
+      if (proof.images.length) {
+        parts.push(`${plural(proof.images.length, "image")} for the vision model`);
+      }
+      return parts.join(", ");
+    }
+  }
+}
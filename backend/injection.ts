@@ -0,0 +1,98 @@
+/**
+ * Prompt-injection defenses for proof scoring.
+ * Goal descriptions and proofs are written by the person whose stake is at
+ * risk, so both are treated as untrusted: they reach the model only inside
+ * per-request markers, and are screened for attempts to steer the verdict.
+ */
+
+import { randomBytes } from "node:crypto";
+import { AUTO_COMPLETE_SCORE, clampToVoteRange } from "./chain";
+
+export type ManipulationPolicy = "review" | "cap";
+
+export interface ManipulationCheck {
+  flagged: boolean;
+  /** What flagged it: heuristic names and the classifier's reason */
+  signals: string[];
+}
+
+// Phrases aimed at the grader rather than describing the goal
+const INJECTION_PATTERNS: Array<[name: string, pattern: RegExp]> = [
+  [
+    "override_instructions",
+    /\b(ignore|disregard|forget|override)\b[^.\n]{0,40}\b(instructions?|prompts?|rules|guidelines?|guide|directions)\b/i,
+  ],
+  [
+    "new_instructions",
+    /\b(new|updated|real|actual) (instructions?|task|rules)\b/i,
+  ],
+  [
+    "role_play",
+    /\b(you are now|pretend (to be|you are)|from now on,? you|act as (an?|the) (ai|assistant|grader|verifier|judge))\b/i,
+  ],
+  [
+    "prompt_reference",
+    /\b(system|developer) (prompt|message|instructions?)\b/i,
+  ],
+  [
+    "score_demand",
+    /\b(give|assign|award|output|return|respond with|rate|set)\b[^.\n]{0,30}\b(score|rating|grade|verdict)\b[^.\n]{0,20}\b(100|9\d|8\d|7[5-9]|full|max(imum)?|perfect)\b/i,
+  ],
+  // A JSON verdict, as the model is asked to produce: a score next to a
+  // reason or verdict in one object. A bare "score" key is common in
+  // genuine exports (quiz results, app data) and does not count.
+  [
+    "embedded_verdict",
+    /\{[^{}]*["']score["']\s*:\s*\d+[^{}]*["'](reason|verdict)["']\s*:|\{[^{}]*["'](reason|verdict)["']\s*:[^{}]*["']score["']\s*:\s*\d+/i,
+  ],
+  // Text closing or opening the markers the proof is wrapped in
+  ["marker_spoof", /<<<\s*(END\s+)?(GOAL|PROOF)\b/i],
+  [
+    "chat_markup",
+    /(<\|?\/?(system|assistant|user|im_start|im_end)\|?>|\[\/?INST\]|^#{2,}\s*(system|instruction))/im,
+  ],
+  [
+    "addressing_grader",
+    /\b(dear|attention|note (to|for)) (the )?(ai|grader|verifier|model|assistant)\b/i,
+  ],
+];
+
+/**
+ * Names of the injection heuristics the text trips
+ */
+export function findInjectionSignals(text: string): string[] {
+  return INJECTION_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(
+    ([name]) => name
+  );
+}
+
+/**
+ * Wrap untrusted text in markers carrying a random tag, so the content cannot
+ * close the block early, and JSON-escape it so quotes, newlines and control
+ * characters arrive as data
+ */
+export function delimitUntrusted(
+  label: string,
+  text: string,
+  tag: string
+): string {
+  return `<<<${label} ${tag}>>>\n${JSON.stringify(text)}\n<<<END ${label} ${tag}>>>`;
+}
+
+/** Fresh marker tag for one scoring request */
+export function newMarkerTag(): string {
+  return randomBytes(8).toString("hex");
+}
+
+/**
+ * The score to submit for a flagged proof: "review" moves it into the DAO
+ * vote range (40-74) so people decide; "cap" only stops it from
+ * auto-completing, so a proof the model still rejected can fail
+ */
+export function applyManipulationPolicy(
+  score: number,
+  policy: ManipulationPolicy
+): number {
+  if (policy === "cap") return Math.min(score, AUTO_COMPLETE_SCORE - 1);
+  return clampToVoteRange(score);
+}
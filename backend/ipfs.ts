@@ -3,19 +3,32 @@
  * Uses Pinata SDK for uploads and public gateways for fetching.
  */
 
-const PINATA_JWT = process.env.PINATA_JWT;
-const GATEWAY_URL = "https://gateway.pinata.cloud/ipfs";
+import type { IPFSConfig } from "./config";
+
+/**
+ * Raised when proof content cannot be fetched from IPFS
+ */
+export class IPFSFetchError extends Error {
+  constructor(
+    message: string,
+    readonly timedOut: boolean = false
+  ) {
+    super(message);
+    this.name = "IPFSFetchError";
+  }
+}
 
 /**
  * Upload proof content to IPFS via Pinata
  * Returns the IPFS CID
  */
 export async function uploadProof(
+  config: IPFSConfig,
   content: Buffer | string,
   filename: string
 ): Promise<string> {
-  if (!PINATA_JWT) {
-    throw new Error("PINATA_JWT environment variable not set");
+  if (!config.pinataJwt) {
+    throw new Error("PINATA_JWT is not configured");
   }
 
   const blob =
@@ -29,7 +42,7 @@ export async function uploadProof(
   const res = await fetch("https://api.pinata.cloud/pinning/pinFileToIPFS", {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${PINATA_JWT}`,
+      Authorization: `Bearer ${config.pinataJwt}`,
     },
     body: formData,
   });
@@ -48,17 +61,18 @@ export async function uploadProof(
  * Upload JSON metadata to IPFS via Pinata
  */
 export async function uploadJSON(
+  config: IPFSConfig,
   content: Record<string, unknown>,
   name?: string
 ): Promise<string> {
-  if (!PINATA_JWT) {
-    throw new Error("PINATA_JWT environment variable not set");
+  if (!config.pinataJwt) {
+    throw new Error("PINATA_JWT is not configured");
   }
 
   const res = await fetch("https://api.pinata.cloud/pinning/pinJSONToIPFS", {
     method: "POST",
     headers: {
-      Authorization: `Bearer ${PINATA_JWT}`,
+      Authorization: `Bearer ${config.pinataJwt}`,
       "Content-Type": "application/json",
     },
     body: JSON.stringify({
@@ -77,19 +91,99 @@ export async function uploadJSON(
   return data.IpfsHash;
 }
 
+export interface FetchedProof {
+  /** Raw bytes, hashed for the verification ledger */
+  data: Buffer;
+  /** Media type, from the gateway or sniffed from the bytes */
+  contentType: string;
+}
+
+const PNG_SIGNATURE = Buffer.from("89504e470d0a1a0a", "hex");
+const OLE_SIGNATURE = Buffer.from("d0cf11e0a1b11ae1", "hex");
+
+export const PDF_TYPE = "application/pdf";
+export const DOCX_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const DOC_TYPE = "application/msword";
+
+function ascii(data: Buffer, start: number, end: number): string {
+  return data.subarray(start, end).toString("latin1");
+}
+
+// Magic numbers of the binary formats proofs come in; gateways and uploaders
+// often get their Content-Type wrong
+const SIGNATURES: Array<[type: string, matches: (data: Buffer) => boolean]> = [
+  ["image/png", (d) => d.subarray(0, 8).equals(PNG_SIGNATURE)],
+  ["image/jpeg", (d) => d[0] === 0xff && d[1] === 0xd8 && d[2] === 0xff],
+  ["image/gif", (d) => ascii(d, 0, 4) === "GIF8"],
+  ["image/webp", (d) => ascii(d, 0, 4) === "RIFF" && ascii(d, 8, 12) === "WEBP"],
+  [
+    "image/heic",
+    (d) =>
+      ascii(d, 4, 8) === "ftyp" &&
+      ["heic", "heix", "mif1", "msf1"].includes(ascii(d, 8, 12)),
+  ],
+  [PDF_TYPE, (d) => ascii(d, 0, 5) === "%PDF-"],
+  // A ZIP archive with Word parts; the entry names are stored uncompressed
+  [
+    DOCX_TYPE,
+    (d) => ascii(d, 0, 4) === "PK\x03\x04" && d.includes("word/"),
+  ],
+  // Legacy Word (and other OLE compound files)
+  [DOC_TYPE, (d) => d.subarray(0, 8).equals(OLE_SIGNATURE)],
+];
+
+// Types that say nothing about the content; DOCX files are ZIP archives
+const GENERIC_TYPES = new Set(["application/octet-stream", "application/zip"]);
+
+const SIGNATURE_TYPES = new Set(SIGNATURES.map(([type]) => type));
+
+/** No NUL bytes and valid UTF-8 in the first few KB */
+function looksLikeText(data: Buffer): boolean {
+  const head = data.subarray(0, 4096);
+  if (head.includes(0)) return false;
+  try {
+    // A multi-byte character may be cut at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The proof's media type. The bytes win whenever they contradict the
+ * gateway's Content-Type: a known signature decides the type (a PDF served
+ * as text/plain is a PDF), and text declared as one of those formats or as
+ * a generic binary type is text. Otherwise the header is used, or
+ * text/plain when it is missing.
+ */
+export function detectContentType(data: Buffer, header: string | null): string {
+  const declared = header?.split(";")[0].trim().toLowerCase();
+  const match = SIGNATURES.find(([, matches]) => matches(data));
+  if (match) return match[0];
+  const binary =
+    declared && (SIGNATURE_TYPES.has(declared) || GENERIC_TYPES.has(declared));
+  if (binary && looksLikeText(data)) {
+    return "text/plain";
+  }
+  return declared ?? "text/plain";
+}
+
 /**
  * Fetch proof content from IPFS
  */
 export async function fetchProofFromIPFS(
+  config: IPFSConfig,
   cidOrURL: string,
-  timeout: number = 30000
-): Promise<string> {
+  timeout: number = config.fetchTimeoutMs
+): Promise<FetchedProof> {
   try {
     let url: string;
 
     // Handle raw CID
     if (cidOrURL.startsWith("Qm") || cidOrURL.startsWith("bafy")) {
-      url = `${GATEWAY_URL}/${cidOrURL}`;
+      url = `${config.gatewayUrl}/${cidOrURL}`;
     } else if (cidOrURL.startsWith("http")) {
       url = cidOrURL;
     } else {
@@ -109,11 +203,18 @@ export async function fetchProofFromIPFS(
       throw new Error(`IPFS fetch failed: ${response.statusText}`);
     }
 
-    const text = await response.text();
-    return text;
+    const data = Buffer.from(await response.arrayBuffer());
+    return {
+      data,
+      contentType: detectContentType(data, response.headers.get("content-type")),
+    };
   } catch (error) {
     console.error("IPFS fetch error:", error);
-    throw new Error(`Failed to fetch proof from IPFS: ${error}`);
+    const timedOut = error instanceof Error && error.name === "AbortError";
+    throw new IPFSFetchError(
+      `Failed to fetch proof from IPFS: ${error}`,
+      timedOut
+    );
   }
 }
 
@@ -135,9 +236,9 @@ export function parseProofContent(content: string): string {
 }
 
 /**
- * Build a Pinata gateway URL from a CID
+ * Build a gateway URL from a CID
  */
-export function getIPFSUrl(cid: string): string {
+export function getIPFSUrl(config: IPFSConfig, cid: string): string {
   if (cid.startsWith("http")) return cid;
-  return `${GATEWAY_URL}/${cid}`;
+  return `${config.gatewayUrl}/${cid}`;
 }
@@ -0,0 +1,394 @@
+/**
+ * Verification ledger: an audit record of every scoring attempt, so disputes
+ * can be investigated after the fact. Uses a local SQLite file by default and
+ * Postgres when DATABASE_URL points at one.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import pg from "pg";
+import initSqlJs, { type Database } from "sql.js";
+
+export type LedgerOutcome =
+  | "confirmed"
+  | "already_resolved"
+  | "superseded"
+  | "reverted"
+  | "shadow"
+  | "signed"
+  | "attested"
+  | "error";
+
+export interface LedgerEntry {
+  id: number;
+  /** Deployment the goal belongs to (see config targets) */
+  target: string;
+  goalId: string;
+  attempt: number;
+  description: string | null;
+  proofURI: string;
+  contentHash: string | null;
+  textLength: number | null;
+  model: string | null;
+  promptVersion: string | null;
+  rawOutput: string | null;
+  score: number | null;
+  reason: string | null;
+  txHash: string | null;
+  outcome: LedgerOutcome;
+  error: string | null;
+  /** Quorum aggregation (JSON) when the score came from several verifiers */
+  quorum: string | null;
+  /** Injection signals (JSON array) when the proof was flagged as manipulative */
+  manipulation: string | null;
+  /** Category rubric and version the score came from, e.g. "fitness/v1" */
+  rubric: string | null;
+  /** Ensemble judgements and confidence (JSON) when several were aggregated */
+  ensemble: string | null;
+  /** Media type of the fetched proof, e.g. application/pdf */
+  contentType: string | null;
+  /** Page count of PDF and DOCX proofs */
+  pageCount: number | null;
+  createdAt: string;
+}
+
+export type NewLedgerEntry = Omit<LedgerEntry, "id" | "createdAt">;
+
+export interface VerificationLedger {
+  /** Append one scoring attempt */
+  record(entry: NewLedgerEntry): Promise<void>;
+  /** All attempts for a target's goal, oldest first */
+  listForGoal(target: string, goalId: string): Promise<LedgerEntry[]>;
+  close(): Promise<void>;
+}
+
+interface Migration {
+  version: number;
+  sqlite: string;
+  postgres: string;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    sqlite: `CREATE TABLE verification_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      goal_id TEXT NOT NULL,
+      attempt INTEGER NOT NULL,
+      description TEXT,
+      proof_uri TEXT NOT NULL,
+      content_hash TEXT,
+      text_length INTEGER,
+      model TEXT,
+      prompt_version TEXT,
+      raw_output TEXT,
+      score INTEGER,
+      reason TEXT,
+      tx_hash TEXT,
+      outcome TEXT NOT NULL,
+      error TEXT,
+      created_at TEXT NOT NULL
+    );
+    CREATE INDEX verification_attempts_goal_id ON verification_attempts (goal_id);`,
+    postgres: `CREATE TABLE verification_attempts (
+      id BIGSERIAL PRIMARY KEY,
+      goal_id NUMERIC(78, 0) NOT NULL,
+      attempt INTEGER NOT NULL,
+      description TEXT,
+      proof_uri TEXT NOT NULL,
+      content_hash TEXT,
+      text_length INTEGER,
+      model TEXT,
+      prompt_version TEXT,
+      raw_output TEXT,
+      score INTEGER,
+      reason TEXT,
+      tx_hash TEXT,
+      outcome TEXT NOT NULL,
+      error TEXT,
+      created_at TIMESTAMPTZ NOT NULL
+    );
+    CREATE INDEX verification_attempts_goal_id ON verification_attempts (goal_id);`,
+  },
+  {
+    version: 2,
+    sqlite: "ALTER TABLE verification_attempts ADD COLUMN quorum TEXT",
+    postgres: "ALTER TABLE verification_attempts ADD COLUMN quorum TEXT",
+  },
+  {
+    version: 3,
+    sqlite: `ALTER TABLE verification_attempts ADD COLUMN target TEXT NOT NULL DEFAULT 'default';
+    CREATE INDEX verification_attempts_target_goal_id ON verification_attempts (target, goal_id);`,
+    postgres: `ALTER TABLE verification_attempts ADD COLUMN target TEXT NOT NULL DEFAULT 'default';
+    CREATE INDEX verification_attempts_target_goal_id ON verification_attempts (target, goal_id);`,
+  },
+  {
+    version: 4,
+    sqlite: "ALTER TABLE verification_attempts ADD COLUMN manipulation TEXT",
+    postgres: "ALTER TABLE verification_attempts ADD COLUMN manipulation TEXT",
+  },
+  {
+    version: 5,
+    sqlite: `ALTER TABLE verification_attempts ADD COLUMN content_type TEXT;
+    ALTER TABLE verification_attempts ADD COLUMN page_count INTEGER`,
+    postgres: `ALTER TABLE verification_attempts ADD COLUMN content_type TEXT;
+    ALTER TABLE verification_attempts ADD COLUMN page_count INTEGER`,
+  },
+  {
+    version: 6,
+    sqlite: "ALTER TABLE verification_attempts ADD COLUMN rubric TEXT",
+    postgres: "ALTER TABLE verification_attempts ADD COLUMN rubric TEXT",
+  },
+  {
+    version: 7,
+    sqlite: "ALTER TABLE verification_attempts ADD COLUMN ensemble TEXT",
+    postgres: "ALTER TABLE verification_attempts ADD COLUMN ensemble TEXT",
+  },
+];
+
+const INSERT_SQL = `INSERT INTO verification_attempts (
+  goal_id, attempt, description, proof_uri, content_hash, text_length, model,
+  prompt_version, raw_output, score, reason, tx_hash, outcome, error, quorum,
+  created_at, target, manipulation, content_type, page_count, rubric,
+  ensemble
+) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)`;
+
+const SELECT_GOAL_SQL = `SELECT * FROM verification_attempts
+  WHERE target = $1 AND goal_id = $2 ORDER BY id`;
+
+function insertParams(entry: NewLedgerEntry) {
+  return [
+    entry.goalId,
+    entry.attempt,
+    entry.description,
+    entry.proofURI,
+    entry.contentHash,
+    entry.textLength,
+    entry.model,
+    entry.promptVersion,
+    entry.rawOutput,
+    entry.score,
+    entry.reason,
+    entry.txHash,
+    entry.outcome,
+    entry.error,
+    entry.quorum,
+    new Date().toISOString(),
+    entry.target,
+    entry.manipulation,
+    entry.contentType,
+    entry.pageCount,
+    entry.rubric,
+    entry.ensemble,
+  ];
+}
+
+function fromRow(row: Record<string, unknown>): LedgerEntry {
+  const createdAt = row.created_at;
+  return {
+    id: Number(row.id),
+    target: String(row.target),
+    goalId: String(row.goal_id),
+    attempt: Number(row.attempt),
+    description: row.description as string | null,
+    proofURI: row.proof_uri as string,
+    contentHash: row.content_hash as string | null,
+    textLength: row.text_length === null ? null : Number(row.text_length),
+    model: row.model as string | null,
+    promptVersion: row.prompt_version as string | null,
+    rawOutput: row.raw_output as string | null,
+    score: row.score === null ? null : Number(row.score),
+    reason: row.reason as string | null,
+    txHash: row.tx_hash as string | null,
+    outcome: row.outcome as LedgerOutcome,
+    error: row.error as string | null,
+    quorum: (row.quorum as string | null) ?? null,
+    manipulation: (row.manipulation as string | null) ?? null,
+    rubric: (row.rubric as string | null) ?? null,
+    ensemble: (row.ensemble as string | null) ?? null,
+    contentType: (row.content_type as string | null) ?? null,
+    pageCount: row.page_count == null ? null : Number(row.page_count),
+    createdAt:
+      createdAt instanceof Date ? createdAt.toISOString() : String(createdAt),
+  };
+}
+
+/**
+ * SQLite ledger backed by sql.js. sql.js keeps a database in memory only, so
+ * no copy is held between calls: every call loads the file, and every change
+ * is written to a temp file that is renamed over it. A crash mid-write leaves
+ * the previous file intact, and the service and the CLI see each other's rows.
+ */
+class SqliteLedger implements VerificationLedger {
+  constructor(
+    private readonly SQL: initSqlJs.SqlJsStatic,
+    private readonly path: string
+  ) {}
+
+  static async open(path: string): Promise<SqliteLedger> {
+    const ledger = new SqliteLedger(await initSqlJs(), path);
+    ledger.migrate();
+    return ledger;
+  }
+
+  private migrate(): void {
+    const db = this.load();
+    try {
+      db.run(
+        "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY)"
+      );
+      const applied = new Set(
+        (db.exec("SELECT version FROM schema_migrations")[0]?.values ?? []).map(
+          ([version]) => Number(version)
+        )
+      );
+
+      const pending = MIGRATIONS.filter(
+        (migration) => !applied.has(migration.version)
+      );
+      for (const migration of pending) {
+        db.run("BEGIN");
+        db.exec(migration.sqlite);
+        db.run("INSERT INTO schema_migrations (version) VALUES (?)", [
+          migration.version,
+        ]);
+        db.run("COMMIT");
+      }
+      if (pending.length > 0) this.persist(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  async record(entry: NewLedgerEntry): Promise<void> {
+    const db = this.load();
+    try {
+      db.run(toSqlite(INSERT_SQL), insertParams(entry));
+      this.persist(db);
+    } finally {
+      db.close();
+    }
+  }
+
+  async listForGoal(target: string, goalId: string): Promise<LedgerEntry[]> {
+    const db = this.load();
+    try {
+      const stmt = db.prepare(toSqlite(SELECT_GOAL_SQL));
+      stmt.bind([target, goalId]);
+      const entries: LedgerEntry[] = [];
+      while (stmt.step()) {
+        entries.push(fromRow(stmt.getAsObject()));
+      }
+      stmt.free();
+      return entries;
+    } finally {
+      db.close();
+    }
+  }
+
+  async close(): Promise<void> {}
+
+  private load(): Database {
+    return existsSync(this.path)
+      ? new this.SQL.Database(readFileSync(this.path))
+      : new this.SQL.Database();
+  }
+
+  /** Atomic write; the temp file is per process so two writers never share one */
+  private persist(db: Database): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, db.export());
+    renameSync(tmpPath, this.path);
+  }
+}
+
+/**
+ * Postgres ledger; migrations run in a transaction under an advisory lock so
+ * several verifier instances can start against the same database
+ */
+class PostgresLedger implements VerificationLedger {
+  constructor(private readonly pool: pg.Pool) {}
+
+  static async open(connectionString: string): Promise<PostgresLedger> {
+    const ledger = new PostgresLedger(new pg.Pool({ connectionString }));
+    await ledger.migrate();
+    return ledger;
+  }
+
+  private async migrate(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query("SELECT pg_advisory_xact_lock(hashtext('verification_ledger'))");
+      await client.query(
+        "CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY)"
+      );
+      const { rows } = await client.query<{ version: number }>(
+        "SELECT version FROM schema_migrations"
+      );
+      const applied = new Set(rows.map((row) => row.version));
+
+      for (const migration of MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+        await client.query(migration.postgres);
+        await client.query(
+          "INSERT INTO schema_migrations (version) VALUES ($1)",
+          [migration.version]
+        );
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async record(entry: NewLedgerEntry): Promise<void> {
+    await this.pool.query(INSERT_SQL, insertParams(entry));
+  }
+
+  async listForGoal(target: string, goalId: string): Promise<LedgerEntry[]> {
+    const { rows } = await this.pool.query(SELECT_GOAL_SQL, [target, goalId]);
+    return rows.map(fromRow);
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/** Queries are written with Postgres `$n` placeholders; SQLite uses `?n` */
+function toSqlite(sql: string): string {
+  return sql.replace(/\$(\d+)/g, "?$1");
+}
+
+/**
+ * Open the ledger: Postgres if `databaseUrl` is a postgres:// URL, SQLite at
+ * the path of a sqlite: URL, or SQLite at `sqlitePath` when it is unset.
+ * Config validation rejects other schemes.
+ */
+export async function openLedger(
+  databaseUrl: string | undefined,
+  sqlitePath: string
+): Promise<VerificationLedger> {
+  if (databaseUrl?.startsWith("postgres://") || databaseUrl?.startsWith("postgresql://")) {
+    return PostgresLedger.open(databaseUrl);
+  }
+  if (databaseUrl?.startsWith("sqlite:")) {
+    return SqliteLedger.open(databaseUrl.slice("sqlite:".length));
+  }
+  if (databaseUrl) {
+    throw new Error("DATABASE_URL must be a postgres://, postgresql:// or sqlite: URL");
+  }
+  return SqliteLedger.open(sqlitePath);
+}
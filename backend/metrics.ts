@@ -0,0 +1,167 @@
+/**
+ * Prometheus metrics for the verifier, served at /metrics by the HTTP API.
+ */
+
+import {
+  collectDefaultMetrics,
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+} from "prom-client";
+import type { JobQueue } from "./queue";
+
+export type Stage =
+  | "contract_read"
+  | "ipfs_fetch"
+  | "extract"
+  | "llm_call"
+  | "tx_submit";
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const proofsReceived = new Counter({
+  name: "verifier_proofs_received_total",
+  help: "Proofs picked up from ProofSubmitted logs or the reconciliation sweep",
+  labelNames: ["target", "source"] as const,
+  registers: [registry],
+});
+
+export const stageDuration = new Histogram({
+  name: "verifier_stage_duration_seconds",
+  help: "Duration of each processing stage",
+  labelNames: ["target", "stage", "result"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120],
+  registers: [registry],
+});
+
+// Integer scores: le=39 auto-fails, le=74 goes to a DAO vote, the rest completes
+export const scoreDistribution = new Histogram({
+  name: "verifier_score",
+  help: "AI scores; buckets match the 40/75 contract thresholds",
+  labelNames: ["target"] as const,
+  buckets: [39, 74, 100],
+  registers: [registry],
+});
+
+export const manipulationFlags = new Counter({
+  name: "verifier_manipulation_flags_total",
+  help: "Injection signals found in scored goals and proofs",
+  labelNames: ["signal"] as const,
+  registers: [registry],
+});
+
+export const lowConfidenceScores = new Counter({
+  name: "verifier_low_confidence_scores_total",
+  help: "Ensemble scores moved into the DAO vote range because the judgements disagreed",
+  registers: [registry],
+});
+
+export const llmErrors = new Counter({
+  name: "verifier_llm_errors_total",
+  help: "Failed LLM calls, invalid verdicts and indeterminate results",
+  labelNames: ["provider", "type"] as const,
+  registers: [registry],
+});
+
+export const txReverts = new Counter({
+  name: "verifier_tx_reverts_total",
+  help: "Score transactions that reverted, by decoded error",
+  labelNames: ["target", "error"] as const,
+  registers: [registry],
+});
+
+export const shadowComparisons = new Counter({
+  name: "verifier_shadow_comparisons_total",
+  help: "Shadow-mode scores compared with the primary verifier, by outcome agreement",
+  labelNames: ["target", "result"] as const,
+  registers: [registry],
+});
+
+export const quorumOutcomes = new Counter({
+  name: "verifier_quorum_outcomes_total",
+  help: "Quorum aggregations, by whether the members agreed or the goal went to a DAO vote",
+  labelNames: ["target", "result"] as const,
+  registers: [registry],
+});
+
+export const goalsExpired = new Counter({
+  name: "verifier_goals_expired_total",
+  help: "Goals the expiry keeper failed after their proof window closed, by result",
+  labelNames: ["target", "result"] as const,
+  registers: [registry],
+});
+
+export const votesResolved = new Counter({
+  name: "verifier_votes_resolved_total",
+  help: "resolveVote calls by the vote keeper, by result",
+  labelNames: ["target", "result"] as const,
+  registers: [registry],
+});
+
+export const reorgsDetected = new Counter({
+  name: "verifier_reorgs_total",
+  help: "Chain reorganisations that replaced an already scanned block",
+  labelNames: ["target"] as const,
+  registers: [registry],
+});
+
+export const proofsSuperseded = new Counter({
+  name: "verifier_proofs_superseded_total",
+  help: "Scored proofs not submitted because the goal's proof URI changed or was reorged away",
+  labelNames: ["target"] as const,
+  registers: [registry],
+});
+
+// Queues by target name
+const observedQueues = new Map<string, JobQueue>();
+
+// Read from the queues themselves at scrape time
+export const queueDepth = new Gauge({
+  name: "verifier_queue_depth",
+  help: "Verification jobs by state",
+  labelNames: ["target", "state"] as const,
+  registers: [registry],
+  collect() {
+    for (const [target, queue] of observedQueues) {
+      for (const state of ["pending", "running", "done"] as const) {
+        this.set({ target, state }, queue.list(state).length);
+      }
+      this.set({ target, state: "dead" }, queue.listDeadLetters().length);
+    }
+  },
+});
+
+export const checkpointLag = new Gauge({
+  name: "verifier_checkpoint_lag_blocks",
+  help: "Chain head minus the last fully processed block",
+  labelNames: ["target"] as const,
+  registers: [registry],
+});
+
+/**
+ * Time a processing stage, labelling the observation with its outcome
+ */
+export async function timeStage<T>(
+  target: string,
+  stage: Stage,
+  fn: () => Promise<T>
+): Promise<T> {
+  const end = stageDuration.startTimer({ target, stage });
+  try {
+    const result = await fn();
+    end({ result: "ok" });
+    return result;
+  } catch (error) {
+    end({ result: "error" });
+    throw error;
+  }
+}
+
+/**
+ * Report a target's queue depth in `verifier_queue_depth`
+ */
+export function observeQueue(target: string, queue: JobQueue): void {
+  observedQueues.set(target, queue);
+}
@@ -0,0 +1,279 @@
+/**
+ * Notifications for the goal lifecycle.
+ * Events are fanned out to sinks (Slack incoming webhooks and generic JSON
+ * webhooks signed with HMAC-SHA256), each with its own event filter. Failed
+ * deliveries are retried with exponential backoff; delivery never blocks or
+ * fails the verifier pipeline.
+ */
+
+import { createHmac, randomUUID } from "node:crypto";
+import { formatEther } from "viem";
+import type { ScoreOutcome } from "./chain";
+
+export type NotificationEvent = (
+  | {
+      type: "goal_created";
+      goalId: string;
+      user: string;
+      stakeAmount: string;
+      description: string;
+    }
+  | {
+      type: "proof_submitted";
+      goalId: string;
+      user: string;
+      proofURI: string;
+    }
+  | {
+      type: "score_computed";
+      goalId: string;
+      score: number;
+      reason: string;
+      outcome: ScoreOutcome;
+    }
+  | {
+      type: "goal_verified";
+      goalId: string;
+      score: number;
+      passed: boolean;
+    }
+  | {
+      type: "vote_started";
+      goalId: string;
+      aiScore: number;
+      description: string;
+      votingDeadline: number;
+    }
+  | {
+      type: "vote_resolved";
+      goalId: string;
+      passed: boolean;
+      yesVotes: number;
+      noVotes: number;
+    }
+  | {
+      type: "goal_expired";
+      goalId: string;
+      user: string;
+      stakeAmount: string;
+      txHash: string;
+    }
+  | {
+      type: "charity_donation";
+      goalId: string;
+      charity: string;
+      amount: string;
+    }
+) & {
+  /** Deployment the goal belongs to, when the verifier serves several */
+  target?: string;
+};
+
+export type NotificationEventType = NotificationEvent["type"];
+
+export const NOTIFICATION_EVENT_TYPES: NotificationEventType[] = [
+  "goal_created",
+  "proof_submitted",
+  "score_computed",
+  "goal_verified",
+  "vote_started",
+  "vote_resolved",
+  "goal_expired",
+  "charity_donation",
+];
+
+export interface NotificationSink {
+  name: string;
+  /** Event types this sink receives; undefined means all */
+  events?: NotificationEventType[];
+  send(event: NotificationEvent, id: string): Promise<void>;
+}
+
+export interface NotifierOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+}
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+async function postJSON(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {}
+): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook returned ${response.status}`);
+  }
+}
+
+/**
+ * Human-readable one-liner for chat sinks
+ */
+export function formatNotification(event: NotificationEvent): string {
+  const message = formatEventMessage(event);
+  return event.target ? `[${event.target}] ${message}` : message;
+}
+
+function formatEventMessage(event: NotificationEvent): string {
+  switch (event.type) {
+    case "goal_created":
+      return `📢 New goal #${event.goalId} by ${event.user} (${formatEther(BigInt(event.stakeAmount))} MON staked): ${event.description}`;
+    case "proof_submitted":
+      return `📎 Proof submitted for goal #${event.goalId}: ${event.proofURI}`;
+    case "score_computed": {
+      const outcome = {
+        complete: "auto-complete",
+        fail: "auto-fail",
+        vote: "DAO vote",
+      }[event.outcome];
+      return `📊 Goal #${event.goalId} scored ${event.score}/100 → ${outcome}\n> ${event.reason}`;
+    }
+    case "goal_verified":
+      return `${event.passed ? "✅" : "❌"} Goal #${event.goalId} verified: ${event.passed ? "PASSED" : "FAILED"} (score: ${event.score})`;
+    case "vote_started":
+      return `🗳️ Goal #${event.goalId} went to a DAO vote (AI score ${event.aiScore}/100), voting ends ${new Date(event.votingDeadline * 1000).toISOString()}\n> ${event.description}`;
+    case "vote_resolved":
+      return `${event.passed ? "✅" : "❌"} DAO vote on goal #${event.goalId} ${event.passed ? "passed" : "failed"} (${event.yesVotes} yes / ${event.noVotes} no)`;
+    case "goal_expired":
+      return `⌛ Goal #${event.goalId} by ${event.user} expired without proof (${formatEther(BigInt(event.stakeAmount))} MON stake forfeited)`;
+    case "charity_donation":
+      return `💸 Goal #${event.goalId} donated ${formatEther(BigInt(event.amount))} MON to charity ${event.charity}`;
+  }
+}
+
+/**
+ * Slack incoming webhook
+ */
+export class SlackSink implements NotificationSink {
+  readonly name = "slack";
+
+  constructor(
+    private readonly webhookUrl: string,
+    readonly events?: NotificationEventType[]
+  ) {}
+
+  async send(event: NotificationEvent): Promise<void> {
+    await postJSON(
+      this.webhookUrl,
+      JSON.stringify({ text: formatNotification(event) })
+    );
+  }
+}
+
+/**
+ * Generic JSON webhook. With a secret, each request carries
+ * `X-TimeVault-Signature: sha256=<hex>`, an HMAC-SHA256 of
+ * `<X-TimeVault-Timestamp>.<body>`; `X-TimeVault-Event-Id` stays the same
+ * across retries so receivers can deduplicate.
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name: string;
+
+  constructor(
+    private readonly url: string,
+    private readonly secret?: string,
+    readonly events?: NotificationEventType[]
+  ) {
+    this.name = `webhook ${new URL(url).host}`;
+  }
+
+  async send(event: NotificationEvent, id: string): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const body = JSON.stringify({ id, ...event });
+    const headers: Record<string, string> = {
+      "X-TimeVault-Event-Id": id,
+      "X-TimeVault-Timestamp": timestamp,
+    };
+    if (this.secret) {
+      const signature = createHmac("sha256", this.secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+      headers["X-TimeVault-Signature"] = `sha256=${signature}`;
+    }
+    await postJSON(this.url, body, headers);
+  }
+}
+
+export class Notifier {
+  constructor(
+    private readonly sinks: NotificationSink[],
+    private readonly options: NotifierOptions
+  ) {}
+
+  get sinkCount(): number {
+    return this.sinks.length;
+  }
+
+  /**
+   * A view of this notifier that tags every event with `target`
+   */
+  forTarget(target: string): Pick<Notifier, "notify"> {
+    return { notify: (event) => this.notify({ ...event, target }) };
+  }
+
+  /**
+   * Deliver an event to every sink subscribed to it, in the background
+   */
+  notify(event: NotificationEvent): void {
+    const id = randomUUID();
+    for (const sink of this.sinks) {
+      if (sink.events && !sink.events.includes(event.type)) continue;
+      void this.deliver(sink, event, id);
+    }
+  }
+
+  private async deliver(
+    sink: NotificationSink,
+    event: NotificationEvent,
+    id: string
+  ): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sink.send(event, id);
+        return;
+      } catch (error) {
+        if (attempt >= this.options.maxAttempts) {
+          console.warn(
+            `⚠️  Notification ${event.type} for goal #${event.goalId} to ${sink.name} failed after ${attempt} attempt(s):`,
+            error
+          );
+          return;
+        }
+        const delay = this.options.baseDelayMs * 2 ** (attempt - 1);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+export interface WebhookConfig {
+  url: string;
+  secret?: string;
+  events?: NotificationEventType[];
+}
+
+export interface NotifierConfig extends NotifierOptions {
+  slackWebhookUrl?: string;
+  slackEvents?: NotificationEventType[];
+  webhooks: WebhookConfig[];
+}
+
+/**
+ * Build a notifier with a Slack sink (if configured) and one sink per webhook
+ */
+export function createNotifier(config: NotifierConfig): Notifier {
+  const sinks: NotificationSink[] = [];
+  if (config.slackWebhookUrl) {
+    sinks.push(new SlackSink(config.slackWebhookUrl, config.slackEvents));
+  }
+  for (const webhook of config.webhooks) {
+    sinks.push(new WebhookSink(webhook.url, webhook.secret, webhook.events));
+  }
+  return new Notifier(sinks, config);
+}
@@ -0,0 +1,158 @@
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import type { ScoringProvider, ScoringRequest } from "./provider";
+
+const fixtureFile = z.array(
+  z
+    .object({
+      /** Case-insensitive substring of the goal description */
+      goal: z.string().min(1).optional(),
+      /** Case-insensitive substring of the proof text */
+      proof: z.string().min(1).optional(),
+      score: z.number().int().min(0).max(100),
+      reason: z.string().min(1),
+    })
+    .refine((fixture) => fixture.goal || fixture.proof, {
+      message: "needs a goal or proof pattern",
+    })
+);
+
+type Fixture = z.infer<typeof fixtureFile>[number];
+
+// Common words that say nothing about whether the goal was met
+const STOP_WORDS = new Set([
+  "about", "after", "before", "complete", "every", "finish", "from", "have",
+  "into", "more", "than", "that", "their", "this", "will", "with", "within",
+]);
+
+// Sentences opening with one of these tell the reader what to do
+const DIRECTIVES = new Set([
+  "accept", "approve", "assign", "award", "disregard", "forget", "give",
+  "ignore", "output", "override", "rate", "respond", "return", "set", "treat",
+]);
+
+// What a grader decides
+const VERDICT_WORD = /^(score[sd]?|rating|grade|verdict|pass(es|ed|ing)?|approv(e|ed|al)|accept(ed)?|marks?|100)$/;
+
+function keywords(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+  return [...new Set(words)].filter(
+    (word) => word.length >= 4 && !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * Sentences that address the reader (second person, or opening with an
+ * instruction) and ask for a verdict. A stand-in for a model classifier
+ * that reads intent rather than known phrasings, so it deliberately does
+ * not reuse the injection heuristics.
+ */
+export function findVerdictRequests(text: string): string[] {
+  return text
+    .split(/[.!?;\n]+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => {
+      const words = sentence.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+      const addressed =
+        DIRECTIVES.has(words[0] ?? "") ||
+        words.some((word) => word === "you" || word === "your");
+      return addressed && words.some((word) => VERDICT_WORD.test(word));
+    });
+}
+
+/**
+ * Deterministic scoring without a model, for tests, demos and offline runs.
+ * Classification requests flag text asking the reader for a verdict (see
+ * findVerdictRequests). Proofs matching an entry of the fixture file get that entry's verdict;
+ * anything else is scored by a rule of thumb: how many of the goal's
+ * keywords the proof mentions, plus credit for links, figures and detail.
+ */
+export class FixtureProvider implements ScoringProvider {
+  readonly name = "fixture";
+  private readonly fixtures: Fixture[];
+
+  constructor(fixturesPath?: string) {
+    this.fixtures = fixturesPath ? loadFixtures(fixturesPath) : [];
+  }
+
+  async complete(request: ScoringRequest): Promise<string> {
+    const { goalDescription, proofText } = request;
+    if (request.task === "classify") {
+      const requests = findVerdictRequests(`${goalDescription}\n${proofText}`);
+      return JSON.stringify({
+        manipulation: requests.length > 0,
+        reason: requests.length
+          ? `Asks the grader for a verdict: "${requests[0]}"`
+          : "Does not address the grader",
+      });
+    }
+    const fixture = this.match(goalDescription, proofText);
+    const { score, reason } =
+      fixture ?? ruleOfThumb(goalDescription, proofText);
+    return JSON.stringify({ score, reason });
+  }
+
+  private match(goal: string, proof: string): Fixture | undefined {
+    const includes = (text: string, pattern?: string) =>
+      !pattern || text.toLowerCase().includes(pattern.toLowerCase());
+    return this.fixtures.find(
+      (fixture) =>
+        includes(goal, fixture.goal) && includes(proof, fixture.proof)
+    );
+  }
+}
+
+function loadFixtures(path: string): Fixture[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read scoring fixtures ${path}: ${error}`);
+  }
+  const result = fixtureFile.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - [${issue.path.join(".")}]: ${issue.message}`
+    );
+    throw new Error(`Invalid scoring fixtures ${path}:\n${problems.join("\n")}`);
+  }
+  return result.data;
+}
+
+function ruleOfThumb(
+  goal: string,
+  proof: string
+): { score: number; reason: string } {
+  const text = proof.trim();
+  if (!text) return { score: 0, reason: "Empty proof" };
+
+  const goalWords = keywords(goal);
+  const proofWords = new Set(keywords(text));
+  const covered = goalWords.filter((word) => proofWords.has(word));
+  const coverage = goalWords.length ? covered.length / goalWords.length : 0;
+
+  const hasLink = /https?:\/\/\S+/.test(text);
+  const hasFigures = /\d/.test(text);
+  const detailed = text.length >= 200;
+
+  const score = Math.round(
+    Math.min(
+      100,
+      10 +
+        60 * coverage +
+        (hasLink ? 10 : 0) +
+        (hasFigures ? 10 : 0) +
+        (detailed ? 10 : 0)
+    )
+  );
+
+  const evidence = [
+    hasLink && "a link",
+    hasFigures && "figures",
+    detailed && "detail",
+  ].filter(Boolean);
+  const reason =
+    `Mentions ${covered.length} of ${goalWords.length} goal keywords` +
+    (evidence.length ? `; includes ${evidence.join(", ")}` : "");
+  return { score, reason };
+}
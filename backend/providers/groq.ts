@@ -0,0 +1,47 @@
+import Groq from "groq-sdk";
+import {
+  ScoringError,
+  type ScoringProvider,
+  type ScoringRequest,
+} from "./provider";
+
+/**
+ * Chat completions through the Groq API
+ */
+export class GroqProvider implements ScoringProvider {
+  readonly name = "groq";
+  private readonly groq: Groq;
+
+  constructor(apiKey: string, timeoutMs: number) {
+    this.groq = new Groq({ apiKey, timeout: timeoutMs });
+  }
+
+  async complete(request: ScoringRequest): Promise<string> {
+    try {
+      const response = await this.groq.chat.completions.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: request.messages,
+      });
+      return response.choices[0].message.content ?? "{}";
+    } catch (error) {
+      if (error instanceof Groq.APIConnectionTimeoutError) {
+        throw new ScoringError(
+          `Groq request timed out: ${error}`,
+          undefined,
+          "timeout"
+        );
+      }
+      if (error instanceof Groq.APIConnectionError) {
+        throw new ScoringError(
+          `Groq connection failed: ${error}`,
+          undefined,
+          "connection"
+        );
+      }
+      const status = error instanceof Groq.APIError ? error.status : undefined;
+      throw new ScoringError(`Groq scoring failed: ${error}`, status);
+    }
+  }
+}
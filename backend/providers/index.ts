@@ -0,0 +1,44 @@
+import type { ScoringConfig } from "../config";
+import { FixtureProvider } from "./fixture";
+import { GroqProvider } from "./groq";
+import { OpenAICompatibleProvider } from "./openai";
+import { ScoringError, type ScoringProvider } from "./provider";
+
+export * from "./provider";
+
+// One provider per config, created on first use, so CLI commands that never
+// score do not need the provider's credentials
+const providers = new WeakMap<ScoringConfig, ScoringProvider>();
+
+/**
+ * The provider selected by `scoring.provider`
+ */
+export function getProvider(config: ScoringConfig): ScoringProvider {
+  let provider = providers.get(config);
+  if (!provider) {
+    provider = createProvider(config);
+    providers.set(config, provider);
+  }
+  return provider;
+}
+
+function createProvider(config: ScoringConfig): ScoringProvider {
+  switch (config.provider) {
+    case "groq":
+      if (!config.groqApiKey) {
+        throw new ScoringError("GROQ_API_KEY is not configured");
+      }
+      return new GroqProvider(config.groqApiKey, config.timeoutMs);
+    case "openai":
+      if (!config.baseUrl) {
+        throw new ScoringError("SCORING_BASE_URL is not configured");
+      }
+      return new OpenAICompatibleProvider(
+        config.baseUrl,
+        config.apiKey,
+        config.timeoutMs
+      );
+    case "fixture":
+      return new FixtureProvider(config.fixturesFile);
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  ScoringError,
+  type ScoringProvider,
+  type ScoringRequest,
+} from "./provider";
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+}
+
+/**
+ * Chat completions from any OpenAI-compatible endpoint: OpenAI itself, or a
+ * local llama.cpp, Ollama or vLLM server. `baseUrl` is the API root, e.g.
+ * http://localhost:11434/v1
+ */
+export class OpenAICompatibleProvider implements ScoringProvider {
+  readonly name = "openai";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string | undefined,
+    private readonly timeoutMs: number
+  ) {}
+
+  async complete(request: ScoringRequest): Promise<string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    // Local servers usually run without a key
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(
+        `${this.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            model: request.model,
+            max_tokens: request.maxTokens,
+            temperature: request.temperature,
+            messages: request.messages,
+          }),
+          signal: AbortSignal.timeout(this.timeoutMs),
+        }
+      );
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError";
+      throw new ScoringError(
+        `Request to ${this.baseUrl} failed: ${error}`,
+        undefined,
+        timedOut ? "timeout" : "connection"
+      );
+    }
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new ScoringError(
+        `${this.baseUrl} returned ${response.status}: ${body.slice(0, 200)}`,
+        response.status
+      );
+    }
+
+    let data: ChatCompletionResponse;
+    try {
+      data = (await response.json()) as ChatCompletionResponse;
+    } catch (error) {
+      throw new ScoringError(
+        `${this.baseUrl} returned a non-JSON response: ${error}`,
+        response.status
+      );
+    }
+    return data.choices?.[0]?.message?.content ?? "{}";
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Scoring providers.
+ * A provider turns one scoring prompt into the model's raw reply; prompt
+ * building and reply parsing stay in scoring.ts, so every provider is held to
+ * the same `{ score, reason }` contract.
+ */
+
+/** Label for the LLM error metric */
+export type LLMErrorType =
+  | "timeout"
+  | "connection"
+  | "rate_limited"
+  | "server_error"
+  | "api_error"
+  | "other";
+
+/**
+ * Raised when a provider call fails; `status` is the HTTP status if any
+ */
+export class ScoringError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly type: LLMErrorType = errorTypeForStatus(status)
+  ) {
+    super(message);
+    this.name = "ScoringError";
+  }
+}
+
+export function errorTypeForStatus(status?: number): LLMErrorType {
+  if (status === 429) return "rate_limited";
+  if (status !== undefined && status >= 500) return "server_error";
+  if (status !== undefined) return "api_error";
+  return "other";
+}
+
+/** OpenAI-style message part; images are sent as data URLs */
+export type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export type ChatMessage =
+  | { role: "system" | "assistant"; content: string }
+  | { role: "user"; content: string | ContentPart[] };
+
+export interface ScoringRequest {
+  /** "score" wants `{ score, reason }`; "classify" wants `{ manipulation, reason }` */
+  task: "score" | "classify";
+  model: string;
+  maxTokens: number;
+  /** Sampling temperature; the provider's default when unset */
+  temperature?: number;
+  /** System prompt, the goal and proof, then any re-ask exchanges */
+  messages: ChatMessage[];
+  /** The unformatted inputs, for providers that do not use the prompt */
+  goalDescription: string;
+  proofText: string;
+}
+
+export interface ScoringProvider {
+  /** "groq", "openai" or "fixture"; used in logs and metrics */
+  readonly name: string;
+  /** The model's reply, expected to be the JSON verdict */
+  complete(request: ScoringRequest): Promise<string>;
+}
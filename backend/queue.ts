@@ -0,0 +1,424 @@
+/**
+ * Persistent verification job queue.
+ * Jobs are stored in a JSON file so they survive restarts, retried with
+ * exponential backoff per failure class, and moved to a dead-letter table
+ * once they run out of attempts.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  HttpRequestError,
+  RpcRequestError,
+  TimeoutError,
+} from "viem";
+import type { EnsembleResult } from "./ensemble";
+import { ProofExtractionError } from "./extract";
+import { ScoringError } from "./scoring";
+import { IPFSFetchError } from "./ipfs";
+import { QuorumPendingError, type QuorumResult, type ScoreAttestation } from "./quorum";
+import { ContractRevertError, TransactionStuckError } from "./txmanager";
+import { VerdictGoalMismatchError, type SignedVerdict } from "./verdict";
+
+export type FailureClass =
+  | "ipfs_timeout"
+  | "rate_limited"
+  | "rpc_error"
+  | "revert"
+  | "quorum_pending"
+  | "goal_mismatch"
+  | "extraction"
+  | "other";
+
+export type JobState = "pending" | "running" | "done" | "dead";
+
+export interface VerificationResult {
+  score: number;
+  reason: string;
+  model: string;
+  scoredAt: number;
+  /** The model gave no valid verdict; `score` routes the goal to a DAO vote */
+  indeterminate?: boolean;
+  /** Injection signals, when the proof was flagged as manipulative */
+  manipulation?: string[];
+  /** Rubric the proof was scored against, e.g. "fitness/v1" */
+  rubric?: string;
+  /** The judgements and their agreement, when several models or prompts scored it */
+  ensemble?: EnsembleResult;
+  txHash?: `0x${string}`;
+  confirmedAt?: number;
+  /** Signed verdict, when verdicts are signed instead of submitted */
+  verdict?: SignedVerdict;
+  /** This verifier's signed score, served to a quorum coordinator */
+  attestation?: ScoreAttestation;
+  /** Aggregated quorum scores, on the coordinator */
+  quorum?: QuorumResult;
+}
+
+export interface VerificationJob {
+  id: string;
+  goalId: string;
+  proofURI: string;
+  state: JobState;
+  attempts: number;
+  nextRunAt: number;
+  createdAt: number;
+  updatedAt: number;
+  lastError?: string;
+  failureClass?: FailureClass;
+  result?: VerificationResult;
+}
+
+export interface RetryPolicy {
+  retryable: boolean;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface QueueOptions {
+  path: string;
+  concurrency: number;
+  maxAttempts: number;
+  pollIntervalMs: number;
+  retryPolicies: Record<FailureClass, RetryPolicy>;
+  /** Done jobs older than this are dropped from the file; kept forever if unset */
+  doneRetentionMs?: number;
+}
+
+interface QueueFile {
+  jobs: VerificationJob[];
+  deadLetters: VerificationJob[];
+}
+
+export const DEFAULT_RETRY_POLICIES: Record<FailureClass, RetryPolicy> = {
+  ipfs_timeout: { retryable: true, baseDelayMs: 30_000, maxDelayMs: 30 * 60_000 },
+  rate_limited: { retryable: true, baseDelayMs: 60_000, maxDelayMs: 60 * 60_000 },
+  rpc_error: { retryable: true, baseDelayMs: 10_000, maxDelayMs: 10 * 60_000 },
+  revert: { retryable: false, baseDelayMs: 0, maxDelayMs: 0 },
+  quorum_pending: { retryable: true, baseDelayMs: 30_000, maxDelayMs: 10 * 60_000 },
+  goal_mismatch: { retryable: false, baseDelayMs: 0, maxDelayMs: 0 },
+  extraction: { retryable: false, baseDelayMs: 0, maxDelayMs: 0 },
+  other: { retryable: true, baseDelayMs: 60_000, maxDelayMs: 60 * 60_000 },
+};
+
+/**
+ * Map an error thrown while processing a job to its failure class
+ */
+export function classifyFailure(error: unknown): FailureClass {
+  if (error instanceof IPFSFetchError) {
+    return error.timedOut ? "ipfs_timeout" : "other";
+  }
+  if (error instanceof ProofExtractionError) {
+    return "extraction";
+  }
+  if (error instanceof ScoringError) {
+    return error.status === 429 ? "rate_limited" : "other";
+  }
+  if (error instanceof ContractRevertError) {
+    return "revert";
+  }
+  if (error instanceof TransactionStuckError) {
+    return "rpc_error";
+  }
+  if (error instanceof QuorumPendingError) {
+    return "quorum_pending";
+  }
+  if (error instanceof VerdictGoalMismatchError) {
+    return "goal_mismatch";
+  }
+  if (error instanceof BaseError) {
+    if (error.walk((e) => e instanceof ContractFunctionRevertedError)) {
+      return "revert";
+    }
+    if (
+      error.walk(
+        (e) =>
+          e instanceof HttpRequestError ||
+          e instanceof RpcRequestError ||
+          e instanceof TimeoutError
+      )
+    ) {
+      return "rpc_error";
+    }
+  }
+  return "other";
+}
+
+/**
+ * Backoff before the next attempt: base * 2^(attempts - 1), capped
+ */
+export function retryDelay(policy: RetryPolicy, attempts: number): number {
+  const delay = policy.baseDelayMs * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, policy.maxDelayMs);
+}
+
+export class JobQueue {
+  private jobs = new Map<string, VerificationJob>();
+  private deadLetters = new Map<string, VerificationJob>();
+  private running = 0;
+  private started = false;
+  private timer: NodeJS.Timeout | undefined;
+  private settledListeners: Array<(job: VerificationJob) => void> = [];
+
+  constructor(
+    private readonly options: QueueOptions,
+    private readonly handler: (job: VerificationJob) => Promise<void>
+  ) {
+    this.load();
+  }
+
+  /**
+   * Add a job for a goal's proof. A goal has at most one job: re-enqueueing
+   * the same proof is a no-op, a new proof URI replaces the old one.
+   */
+  enqueue(goalId: bigint, proofURI: string): VerificationJob {
+    const id = goalId.toString();
+    const now = Date.now();
+
+    const existing = this.jobs.get(id) ?? this.deadLetters.get(id);
+    if (existing && existing.proofURI === proofURI) {
+      return existing;
+    }
+    if (existing && existing.state === "running") {
+      // Picked up again once the current attempt settles
+      existing.proofURI = proofURI;
+      existing.attempts = 0;
+      this.save();
+      return existing;
+    }
+
+    this.deadLetters.delete(id);
+    // A new proof starts from scratch: the previous result no longer applies
+    const job: VerificationJob = {
+      id,
+      goalId: id,
+      proofURI,
+      state: "pending",
+      attempts: 0,
+      nextRunAt: now,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    this.save();
+    this.schedule(0);
+    return job;
+  }
+
+  /** Register a callback for jobs that finished (done or dead-lettered) */
+  onSettled(listener: (job: VerificationJob) => void): void {
+    this.settledListeners.push(listener);
+  }
+
+  /** Look up a goal's job in either table */
+  get(id: string): VerificationJob | undefined {
+    return this.jobs.get(id) ?? this.deadLetters.get(id);
+  }
+
+  /** Jobs in the main table, optionally filtered by state */
+  list(state?: JobState): VerificationJob[] {
+    const jobs = [...this.jobs.values()];
+    return state ? jobs.filter((job) => job.state === state) : jobs;
+  }
+
+  /** Jobs that exhausted their attempts or hit a non-retryable failure */
+  listDeadLetters(): VerificationJob[] {
+    return [...this.deadLetters.values()];
+  }
+
+  /** Move a dead-lettered job back to the queue with a fresh attempt budget */
+  requeue(id: string): boolean {
+    const job = this.deadLetters.get(id);
+    if (!job) return false;
+
+    this.deadLetters.delete(id);
+    job.state = "pending";
+    job.attempts = 0;
+    job.nextRunAt = Date.now();
+    job.updatedAt = Date.now();
+    this.jobs.set(id, job);
+    this.save();
+    this.schedule(0);
+    return true;
+  }
+
+  /** Remove a job from either table */
+  drop(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (job?.state === "running") return false;
+
+    const removed = this.jobs.delete(id) || this.deadLetters.delete(id);
+    if (removed) this.save();
+    return removed;
+  }
+
+  start(): void {
+    this.started = true;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.started = false;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Jobs only run once the queue is started (the CLI edits it without running) */
+  private schedule(delayMs: number): void {
+    if (!this.started) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delayMs);
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const due = this.list("pending")
+      .filter((job) => job.nextRunAt <= now)
+      .sort((a, b) => a.nextRunAt - b.nextRunAt);
+
+    while (this.running < this.options.concurrency && due.length > 0) {
+      const job = due.shift()!;
+      void this.run(job).catch((error) => {
+        console.error(`⚠️  Queue failed running goal #${job.goalId}:`, error);
+      });
+    }
+
+    this.pruneDone(now);
+    this.schedule(this.options.pollIntervalMs);
+  }
+
+  /**
+   * Drop done jobs past the retention window; their results stay in the
+   * ledger. A proof seen again after that is scored again.
+   */
+  private pruneDone(now: number): void {
+    const retention = this.options.doneRetentionMs;
+    if (!retention) return;
+
+    let pruned = false;
+    for (const job of this.list("done")) {
+      if (job.updatedAt < now - retention) {
+        this.jobs.delete(job.id);
+        pruned = true;
+      }
+    }
+    if (pruned) this.saveOrWarn();
+  }
+
+  private async run(job: VerificationJob): Promise<void> {
+    const proofURI = job.proofURI;
+    this.running++;
+    job.state = "running";
+    job.attempts++;
+    job.updatedAt = Date.now();
+    this.saveOrWarn();
+
+    try {
+      await this.handler(job);
+
+      if (job.proofURI !== proofURI) {
+        // A new proof arrived while this attempt was running
+        job.state = "pending";
+        job.nextRunAt = Date.now();
+        job.result = undefined;
+      } else {
+        job.state = "done";
+        job.lastError = undefined;
+        job.failureClass = undefined;
+      }
+    } catch (error) {
+      const failureClass = classifyFailure(error);
+      const policy = this.options.retryPolicies[failureClass];
+      job.lastError = error instanceof Error ? error.message : String(error);
+      job.failureClass = failureClass;
+
+      if (job.proofURI !== proofURI) {
+        job.state = "pending";
+        job.nextRunAt = Date.now();
+        job.result = undefined;
+      } else if (
+        !policy.retryable ||
+        job.attempts >= this.options.maxAttempts
+      ) {
+        job.state = "dead";
+        console.error(
+          `☠️  Goal #${job.goalId} moved to dead-letter after ${job.attempts} attempt(s) (${failureClass})`
+        );
+      } else {
+        const delay = retryDelay(policy, job.attempts);
+        job.state = "pending";
+        job.nextRunAt = Date.now() + delay;
+        console.warn(
+          `🔁 Goal #${job.goalId} failed (${failureClass}), retry ${job.attempts}/${this.options.maxAttempts} in ${Math.round(delay / 1000)}s`
+        );
+      }
+    } finally {
+      this.running--;
+    }
+
+    job.updatedAt = Date.now();
+    if (job.state === "dead") {
+      this.jobs.delete(job.id);
+      this.deadLetters.set(job.id, job);
+    }
+    this.saveOrWarn();
+
+    if (job.state === "done" || job.state === "dead") {
+      for (const listener of this.settledListeners) {
+        try {
+          listener(job);
+        } catch (error) {
+          console.error(`⚠️  Settled listener failed for goal #${job.goalId}:`, error);
+        }
+      }
+    }
+    this.schedule(0);
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = readFileSync(this.options.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const data = JSON.parse(raw) as QueueFile;
+    for (const job of data.jobs) {
+      // Attempts interrupted by a crash or restart run again
+      if (job.state === "running") job.state = "pending";
+      this.jobs.set(job.id, job);
+    }
+    for (const job of data.deadLetters) {
+      this.deadLetters.set(job.id, job);
+    }
+  }
+
+  /**
+   * Save from the run loop: the jobs stay in memory and the next successful
+   * save writes them all, so a failed write (e.g. a full disk) must not
+   * leave a job stuck in "running"
+   */
+  private saveOrWarn(): void {
+    try {
+      this.save();
+    } catch (error) {
+      console.error(`⚠️  Could not save ${this.options.path}:`, error);
+    }
+  }
+
+  private save(): void {
+    const data: QueueFile = {
+      jobs: [...this.jobs.values()],
+      deadLetters: [...this.deadLetters.values()],
+    };
+
+    mkdirSync(dirname(this.options.path), { recursive: true });
+    const tmpPath = `${this.options.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    renameSync(tmpPath, this.options.path);
+  }
+}
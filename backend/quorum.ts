@@ -0,0 +1,209 @@
+/**
+ * Multi-verifier quorum.
+ * Independent verifier instances ("members", each with its own key and
+ * optionally its own model or prompt) sign a score attestation per proof and
+ * serve it over their HTTP API. A coordinator collects the attestations,
+ * takes the median, and only then submits. When the scores spread too far
+ * apart the goal is sent to the DAO vote range instead of being auto-resolved.
+ *
+ * Attestations use the StakeYourGoalSecure scheme — an eth-signed
+ * `keccak256(abi.encodePacked(...))` — bound to the proof URI instead of a
+ * contract nonce, so an attestation cannot be reused for a later proof, and
+ * to the chain id and contract, so it cannot be replayed for the same goal
+ * id on another deployment.
+ */
+
+import {
+  encodePacked,
+  isAddressEqual,
+  keccak256,
+  recoverMessageAddress,
+  type LocalAccount,
+} from "viem";
+import { clampToVoteRange } from "./chain";
+
+export interface ScoreAttestation {
+  chainId: number;
+  /** StakeYourGoal deployment the goal belongs to */
+  contract: `0x${string}`;
+  goalId: string;
+  proofURI: string;
+  score: number;
+  reason: string;
+  model: string;
+  promptVersion: string;
+  signer: `0x${string}`;
+  signature: `0x${string}`;
+}
+
+export interface QuorumMember {
+  /** Base URL of the member's HTTP API */
+  url: string;
+  /** Address the member signs with */
+  address: `0x${string}`;
+}
+
+export interface QuorumResult {
+  /** Score to submit */
+  score: number;
+  median: number;
+  spread: number;
+  /** Spread exceeded the limit, so the score was moved into the DAO vote range */
+  disputed: boolean;
+  scores: Array<{ signer: `0x${string}`; score: number; model: string }>;
+}
+
+/**
+ * Raised when fewer than the required number of scores are available yet;
+ * the job is retried until the members catch up
+ */
+export class QuorumPendingError extends Error {
+  constructor(
+    readonly have: number,
+    readonly need: number
+  ) {
+    super(`Quorum not reached: ${have}/${need} score(s)`);
+    this.name = "QuorumPendingError";
+  }
+}
+
+/** Which proof an attestation is for */
+export interface AttestedProof {
+  chainId: number;
+  contract: `0x${string}`;
+  goalId: string;
+  proofURI: string;
+}
+
+export function attestationHash(
+  proof: AttestedProof,
+  score: number
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["uint256", "address", "uint256", "uint64", "string"],
+      [
+        BigInt(proof.chainId),
+        proof.contract,
+        BigInt(proof.goalId),
+        BigInt(score),
+        proof.proofURI,
+      ]
+    )
+  );
+}
+
+export async function signAttestation(
+  account: LocalAccount,
+  fields: Omit<ScoreAttestation, "signer" | "signature">
+): Promise<ScoreAttestation> {
+  const signature = await account.signMessage({
+    message: { raw: attestationHash(fields, fields.score) },
+  });
+  return { ...fields, signer: account.address, signature };
+}
+
+/**
+ * Check that an attestation is for this proof and was signed by `signer`
+ */
+export async function verifyAttestation(
+  attestation: ScoreAttestation,
+  proof: AttestedProof,
+  signer: `0x${string}`
+): Promise<boolean> {
+  if (
+    attestation.chainId !== proof.chainId ||
+    !isAddressEqual(attestation.contract, proof.contract) ||
+    attestation.goalId !== proof.goalId ||
+    attestation.proofURI !== proof.proofURI
+  ) {
+    return false;
+  }
+  if (!Number.isInteger(attestation.score) || attestation.score < 0 || attestation.score > 100) {
+    return false;
+  }
+
+  const recovered = await recoverMessageAddress({
+    message: { raw: attestationHash(proof, attestation.score) },
+    signature: attestation.signature,
+  });
+  return isAddressEqual(recovered, signer);
+}
+
+/**
+ * Fetch and verify each member's attestation for a target's proof. Members
+ * that have not scored it yet, are unreachable or return a bad signature are
+ * skipped.
+ */
+export async function collectAttestations(
+  members: QuorumMember[],
+  target: string,
+  proof: AttestedProof
+): Promise<ScoreAttestation[]> {
+  const { goalId } = proof;
+  const results = await Promise.all(
+    members.map(async (member) => {
+      try {
+        const response = await fetch(
+          `${member.url.replace(/\/$/, "")}/targets/${target}/goals/${goalId}/attestation`,
+          { signal: AbortSignal.timeout(10_000) }
+        );
+        if (response.status === 404) return null;
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const attestation = (await response.json()) as ScoreAttestation;
+        if (!(await verifyAttestation(attestation, proof, member.address))) {
+          console.warn(`⚠️  Ignoring invalid attestation from ${member.url} for goal #${goalId}`);
+          return null;
+        }
+        return attestation;
+      } catch (error) {
+        console.warn(`⚠️  Quorum member ${member.url} unavailable:`, error);
+        return null;
+      }
+    })
+  );
+  return results.filter((attestation) => attestation !== null);
+}
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[mid]
+    : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+}
+
+/**
+ * Median of the attested scores. If max - min exceeds `maxSpread`, the
+ * median is clamped into the DAO vote range (40-74) so people decide.
+ */
+export function aggregateScores(
+  attestations: ScoreAttestation[],
+  minScores: number,
+  maxSpread: number
+): QuorumResult {
+  if (attestations.length < minScores) {
+    throw new QuorumPendingError(attestations.length, minScores);
+  }
+
+  const values = attestations.map((attestation) => attestation.score);
+  const mid = median(values);
+  const spread = Math.max(...values) - Math.min(...values);
+  const disputed = spread > maxSpread;
+  const score = disputed ? clampToVoteRange(mid) : mid;
+
+  return {
+    score,
+    median: mid,
+    spread,
+    disputed,
+    scores: attestations.map((attestation) => ({
+      signer: attestation.signer,
+      score: attestation.score,
+      model: attestation.model,
+    })),
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Reconciliation sweeps: treat on-chain goal state as the source of truth and
+ * find goals that have a proof but were never scored (e.g. the verifier
+ * crashed, an RPC call failed, or the score transaction never landed), goals
+ * whose proof window closed without a proof, which the keeper expires, and
+ * open DAO votes, which the vote keeper resolves.
+ */
+
+import { PublicClient } from "viem";
+import {
+  AUTO_COMPLETE_SCORE,
+  AUTO_FAIL_BELOW_SCORE,
+  getGoal,
+  getGoalCounter,
+  getVoteParams,
+  PROOF_GRACE_PERIOD_SECONDS,
+} from "./chain";
+
+type OnChainGoal = Awaited<ReturnType<typeof getGoal>>;
+
+export interface UnscoredGoal {
+  goalId: bigint;
+  proofURI: string;
+}
+
+export interface ExpiredGoal {
+  goalId: bigint;
+  user: `0x${string}`;
+  stakeAmount: bigint;
+  deadline: bigint;
+}
+
+export interface OpenVote {
+  goalId: bigint;
+  /** Unix seconds; the vote can be resolved once block time is past it */
+  deadline: bigint;
+}
+
+/**
+ * Read every goal in batches, passing each to `visit`. Reads the latest
+ * state unless `blockNumber` is given.
+ */
+async function forEachGoal(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  batchSize: number,
+  visit: (goalId: bigint, goal: OnChainGoal) => void,
+  blockNumber?: bigint
+): Promise<void> {
+  const goalCount = await getGoalCounter(
+    publicClient,
+    contractAddress,
+    blockNumber
+  );
+
+  for (let start = 0n; start < goalCount; start += BigInt(batchSize)) {
+    const ids: bigint[] = [];
+    for (let id = start; id < goalCount && id < start + BigInt(batchSize); id++) {
+      ids.push(id);
+    }
+
+    const goals = await Promise.all(
+      ids.map((id) => getGoal(publicClient, contractAddress, id, blockNumber))
+    );
+
+    goals.forEach((goal, i) => visit(ids[i], goal));
+  }
+}
+
+/**
+ * Walk every goal and return the active ones with a proof but no AI score,
+ * as of `blockNumber` (confirmed state) or the latest block
+ */
+export async function findUnscoredGoals(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  blockNumber?: bigint,
+  batchSize: number = 20
+): Promise<UnscoredGoal[]> {
+  const unscored: UnscoredGoal[] = [];
+
+  await forEachGoal(
+    publicClient,
+    contractAddress,
+    batchSize,
+    (goalId, goal) => {
+      if (goal.status === 0 && goal.proofURI !== "" && goal.aiScore === 0n) {
+        unscored.push({ goalId, proofURI: goal.proofURI });
+      }
+    },
+    blockNumber
+  );
+
+  return unscored;
+}
+
+/**
+ * Walk every goal and return the active ones without a proof whose proof
+ * window (deadline + grace period) closed before `now` (unix seconds)
+ */
+export async function findExpiredGoals(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  now: bigint,
+  batchSize: number = 20
+): Promise<ExpiredGoal[]> {
+  const expired: ExpiredGoal[] = [];
+
+  await forEachGoal(publicClient, contractAddress, batchSize, (goalId, goal) => {
+    if (
+      goal.status === 0 &&
+      goal.proofURI === "" &&
+      now > goal.deadline + PROOF_GRACE_PERIOD_SECONDS
+    ) {
+      expired.push({
+        goalId,
+        user: goal.user,
+        stakeAmount: goal.stakeAmount,
+        deadline: goal.deadline,
+      });
+    }
+  });
+
+  return expired;
+}
+
+/**
+ * Walk every goal and return the active ones in a DAO vote (mid-range score)
+ * with their voting deadline
+ */
+export async function findOpenVotes(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  batchSize: number = 20
+): Promise<OpenVote[]> {
+  const voting: bigint[] = [];
+
+  await forEachGoal(publicClient, contractAddress, batchSize, (goalId, goal) => {
+    if (
+      goal.status === 0 &&
+      goal.aiScore >= BigInt(AUTO_FAIL_BELOW_SCORE) &&
+      goal.aiScore < BigInt(AUTO_COMPLETE_SCORE)
+    ) {
+      voting.push(goalId);
+    }
+  });
+
+  const params = await Promise.all(
+    voting.map((goalId) => getVoteParams(publicClient, contractAddress, goalId))
+  );
+
+  return voting
+    .map((goalId, i) => ({ goalId, deadline: params[i][0] }))
+    .filter((vote) => vote.deadline > 0n);
+}
@@ -0,0 +1,183 @@
+/**
+ * Scoring rubrics by goal category.
+ * Each goal carries an on-chain `category`; its rubric tells the model what
+ * evidence that kind of goal needs, what strong and weak proof look like and
+ * which red flags to look for. Rubrics are versioned: bump a rubric's
+ * `version` whenever its text changes, so ledger entries can be compared.
+ */
+
+// Index = the on-chain category (see GoalBadgeNFT._getCategoryName)
+export const GOAL_CATEGORIES = [
+  "health",
+  "work",
+  "learning",
+  "fitness",
+  "finance",
+  "other",
+] as const;
+
+export type GoalCategory = (typeof GOAL_CATEGORIES)[number];
+
+export interface Rubric {
+  category: GoalCategory;
+  version: number;
+  /** What a proof for this kind of goal should contain */
+  evidence: string[];
+  strongExamples: string[];
+  weakExamples: string[];
+  redFlags: string[];
+}
+
+const RUBRICS: Record<GoalCategory, Rubric> = {
+  health: {
+    category: "health",
+    version: 1,
+    evidence: [
+      "Records kept over the goal's whole period, not a single day",
+      "Measurements with dates: weight, blood pressure, sleep hours, days sober or meditated",
+      "Reports from a doctor, lab or health app where the goal depends on them",
+    ],
+    strongExamples: [
+      "A health app export with daily entries across the period and the target reached",
+      "Dated lab results before and after showing the stated change",
+    ],
+    weakExamples: [
+      "\"I ate healthy all month\" with no records",
+      "A single photo of a salad or a scale reading with no date",
+    ],
+    redFlags: [
+      "Before/after figures with no dates, or dates outside the goal period",
+      "Screenshots whose numbers or dates look edited",
+    ],
+  },
+  work: {
+    category: "work",
+    version: 1,
+    evidence: [
+      "The deliverable itself, or a link to it: shipped product, merged code, published document",
+      "Dated records from work systems: tickets closed, releases, commits, sign-off emails",
+      "Letters or announcements for promotions, offers and similar milestones",
+    ],
+    strongExamples: [
+      "A release page or merged pull request dated within the goal period",
+      "An offer or promotion letter naming the person and the date",
+    ],
+    weakExamples: [
+      "\"Finished the project\" with nothing to look at",
+      "A screenshot of a to-do list with items ticked off",
+    ],
+    redFlags: [
+      "Work that predates the goal or belongs to someone else",
+      "Letters with no sender, date or name",
+    ],
+  },
+  learning: {
+    category: "learning",
+    version: 1,
+    evidence: [
+      "A certificate or transcript naming the course, the learner and the completion date",
+      "Exam or test results from the provider",
+      "Work produced while learning: assignments, projects, notes, reading logs",
+    ],
+    strongExamples: [
+      "A course certificate with the learner's name, date and a verification link or ID",
+      "An official score report for the exam the goal names",
+    ],
+    weakExamples: [
+      "\"I learned a lot\" with no certificate, result or work",
+      "A screenshot of a course's first lesson or enrolment page",
+    ],
+    redFlags: [
+      "A certificate for a different course, person or date than the goal",
+      "Progress pages showing the course is not yet complete",
+    ],
+  },
+  fitness: {
+    category: "fitness",
+    version: 1,
+    evidence: [
+      "Tracker or app exports (Strava, Garmin, Apple Health) with dates, distances, times or reps",
+      "Race results, timing chips or official event listings",
+      "Video for strength or skill goals that a tracker cannot record",
+    ],
+    strongExamples: [
+      "A Strava activity list covering every session the goal asks for, with date and distance",
+      "An official race result page with the runner's name and finish time",
+    ],
+    weakExamples: [
+      "\"Went to the gym every day\" with no log",
+      "A single gym selfie",
+    ],
+    redFlags: [
+      "Activities whose pace or distance is implausible for the sport (e.g. a run at cycling speed)",
+      "Sessions dated outside the goal period, or fewer than the goal requires",
+    ],
+  },
+  finance: {
+    category: "finance",
+    version: 1,
+    evidence: [
+      "Statements showing the balance, debt or savings change the goal names, with dates at the start and end",
+      "Budget or expense exports covering the goal period",
+      "Confirmation of the payment, deposit or investment the goal describes",
+    ],
+    strongExamples: [
+      "Two bank statements showing savings rising from one figure to the target",
+      "A lender letter confirming the loan was paid off",
+    ],
+    weakExamples: [
+      "\"Saved a lot this month\" with no figures",
+      "A single balance screenshot with nothing to compare it to",
+    ],
+    redFlags: [
+      "Balances with no account holder, institution or date",
+      "A rise explained by a transfer in and straight back out",
+    ],
+  },
+  other: {
+    category: "other",
+    version: 1,
+    evidence: [
+      "Whatever directly shows the goal's stated outcome was reached",
+      "Dates showing it happened within the goal period",
+    ],
+    strongExamples: [
+      "A link, document or photo of the finished result, dated and specific to the goal",
+    ],
+    weakExamples: ["A claim of completion with nothing to check it against"],
+    redFlags: [
+      "Evidence that does not match what the goal describes",
+      "Generic material that could belong to anyone",
+    ],
+  },
+};
+
+/** Category name for an on-chain category; unknown values count as "other" */
+export function categoryName(category?: number): GoalCategory {
+  return (category !== undefined && GOAL_CATEGORIES[category]) || "other";
+}
+
+export function getRubric(category?: number): Rubric {
+  return RUBRICS[categoryName(category)];
+}
+
+/** "fitness/v1", as recorded in the ledger */
+export function rubricId(rubric: Rubric): string {
+  return `${rubric.category}/v${rubric.version}`;
+}
+
+/**
+ * The rubric as a section of the system prompt
+ */
+export function formatRubric(rubric: Rubric): string {
+  const list = (items: string[]) => items.map((item) => `- ${item}`).join("\n");
+  return `Rubric for ${rubric.category} goals:
+Expected evidence:
+${list(rubric.evidence)}
+Strong proof looks like:
+${list(rubric.strongExamples)}
+Weak proof looks like:
+${list(rubric.weakExamples)}
+Red flags (lower the score):
+${list(rubric.redFlags)}`;
+}
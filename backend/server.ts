@@ -0,0 +1,303 @@
+/**
+ * HTTP API for the verifier.
+ * Exposes per-goal verification status (including the AI's reasoning, which
+ * the contract does not store), signed verdicts, quorum attestations,
+ * service health, the job queue, shadow-mode comparisons and Prometheus
+ * metrics. Goal, queue and shadow routes exist per target under
+ * `/targets/:name`; unprefixed, they serve the first target.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { PublicClient } from "viem";
+import { getGoal, getGoalNonce, getSecureGoal, goalStatusLabel } from "./chain";
+import type { CheckpointTracker } from "./checkpoint";
+import { registry } from "./metrics";
+import { classifyFailure, type JobQueue, type VerificationJob } from "./queue";
+import type { ShadowLog } from "./shadow";
+import { decodeRevert, GoalNotFoundError } from "./txmanager";
+import type { SignedVerdict } from "./verdict";
+
+export interface ApiTarget {
+  name: string;
+  chainId: number;
+  publicClient: PublicClient;
+  contractAddress: `0x${string}`;
+  /** StakeYourGoalSecure deployment, in signature mode */
+  verdictContractAddress?: `0x${string}`;
+  verifierAddress: `0x${string}`;
+  queue: JobQueue;
+  tracker: CheckpointTracker;
+  /** Present when running in shadow mode */
+  shadow?: ShadowLog;
+}
+
+export interface ApiDependencies {
+  targets: ApiTarget[];
+  corsOrigin: string;
+}
+
+function toISO(timestamp?: number): string | null {
+  return timestamp ? new Date(timestamp).toISOString() : null;
+}
+
+/**
+ * Where a goal's job is in the verifier pipeline
+ */
+function jobState(job?: VerificationJob): string {
+  if (!job) return "not_queued";
+  switch (job.state) {
+    case "pending":
+      return job.attempts > 0 ? "retrying" : "queued";
+    case "running":
+      return "processing";
+    case "done":
+      return "completed";
+    case "dead":
+      return "dead_letter";
+  }
+}
+
+function serializeJob(job: VerificationJob) {
+  return {
+    goalId: job.goalId,
+    proofURI: job.proofURI,
+    state: jobState(job),
+    attempts: job.attempts,
+    nextRunAt: job.state === "pending" ? toISO(job.nextRunAt) : null,
+    lastError: job.lastError ?? null,
+    failureClass: job.failureClass ?? null,
+    createdAt: toISO(job.createdAt),
+    updatedAt: toISO(job.updatedAt),
+  };
+}
+
+/**
+ * Whether a signed verdict can still be submitted: its goal is active on the
+ * verdict contract and the nonce it was signed for is still current
+ */
+async function isRelayable(deps: ApiTarget, verdict?: SignedVerdict) {
+  if (!verdict || !deps.verdictContractAddress) return false;
+  const goalId = BigInt(verdict.goalId);
+  const [verdictGoal, nonce] = await Promise.all([
+    getSecureGoal(deps.publicClient, deps.verdictContractAddress, goalId),
+    getGoalNonce(deps.publicClient, deps.verdictContractAddress, goalId),
+  ]);
+  return verdictGoal.status === 0 && nonce.toString() === verdict.nonce;
+}
+
+/**
+ * A goal's verification record; null when the goal does not exist. Other
+ * contract read failures are thrown.
+ */
+async function getVerification(deps: ApiTarget, goalId: bigint) {
+  let goal;
+  try {
+    goal = await getGoal(deps.publicClient, deps.contractAddress, goalId);
+  } catch (error) {
+    if (decodeRevert(error) instanceof GoalNotFoundError) return null;
+    throw error;
+  }
+
+  const job = deps.queue.get(goalId.toString());
+  const result = job?.result;
+
+  return {
+    target: deps.name,
+    goalId: goalId.toString(),
+    state: jobState(job),
+    proofURI: job?.proofURI ?? (goal.proofURI || null),
+    score: result?.score ?? null,
+    reason: result?.reason ?? null,
+    model: result?.model ?? null,
+    txHash: result?.txHash ?? null,
+    scoredAt: toISO(result?.scoredAt),
+    confirmedAt: toISO(result?.confirmedAt),
+    queuedAt: toISO(job?.createdAt),
+    updatedAt: toISO(job?.updatedAt),
+    attempts: job?.attempts ?? 0,
+    lastError: job?.lastError ?? null,
+    verdict: result?.verdict ?? null,
+    verdictRelayable: await isRelayable(deps, result?.verdict),
+    quorum: result?.quorum ?? null,
+    onChain: {
+      status: goalStatusLabel(goal.status, goal.aiScore),
+      aiScore: Number(goal.aiScore),
+      proofURI: goal.proofURI || null,
+    },
+  };
+}
+
+function sendJSON(
+  res: ServerResponse,
+  corsOrigin: string,
+  status: number,
+  body: unknown
+) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": corsOrigin,
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function handleRequest(
+  deps: ApiDependencies,
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  const { pathname: fullPath } = new URL(req.url ?? "/", "http://localhost");
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": deps.corsOrigin,
+      "Access-Control-Allow-Methods": "GET, OPTIONS",
+    });
+    res.end();
+    return;
+  }
+  if (req.method !== "GET") {
+    sendJSON(res, deps.corsOrigin, 405, { error: "Method not allowed" });
+    return;
+  }
+
+  if (fullPath === "/health") {
+    sendJSON(res, deps.corsOrigin, 200, {
+      status: "ok",
+      mode: deps.targets[0].shadow ? "shadow" : "live",
+      uptimeSeconds: Math.round(process.uptime()),
+      targets: deps.targets.map((target) => ({
+        name: target.name,
+        chainId: target.chainId,
+        verifier: target.verifierAddress,
+        contract: target.contractAddress,
+        checkpoint: {
+          lastProcessedBlock: target.tracker.lastProcessedBlock.toString(),
+          lastScannedBlock: target.tracker.lastScannedBlock.toString(),
+        },
+      })),
+    });
+    return;
+  }
+
+  if (fullPath === "/metrics") {
+    const metrics = await registry.metrics();
+    res.writeHead(200, { "Content-Type": registry.contentType });
+    res.end(metrics);
+    return;
+  }
+
+  await handleTargetRequest(deps, fullPath, res);
+}
+
+/**
+ * Routes scoped to one target: `/targets/:name/...`, or the first target
+ * without the prefix
+ */
+async function handleTargetRequest(
+  { targets, corsOrigin }: ApiDependencies,
+  fullPath: string,
+  res: ServerResponse
+) {
+  const prefixMatch = fullPath.match(/^\/targets\/([^/]+)(\/.*)$/);
+  const deps = prefixMatch
+    ? targets.find((target) => target.name === prefixMatch[1])
+    : targets[0];
+  const pathname = prefixMatch ? prefixMatch[2] : fullPath;
+  if (!deps) {
+    sendJSON(res, corsOrigin, 404, { error: "Unknown target" });
+    return;
+  }
+
+  const goalMatch = pathname.match(/^\/goals\/(\d+)\/verification$/);
+  if (goalMatch) {
+    let verification;
+    try {
+      verification = await getVerification(deps, BigInt(goalMatch[1]));
+    } catch (error) {
+      if (classifyFailure(error) !== "rpc_error") throw error;
+      console.error("⚠️  Goal read failed:", error);
+      sendJSON(res, corsOrigin, 502, { error: "Chain RPC unavailable" });
+      return;
+    }
+    if (!verification) {
+      sendJSON(res, corsOrigin, 404, { error: "Goal not found" });
+    } else {
+      sendJSON(res, corsOrigin, 200, verification);
+    }
+    return;
+  }
+
+  const verdictMatch = pathname.match(/^\/goals\/(\d+)\/verdict$/);
+  if (verdictMatch) {
+    const verdict = deps.queue.get(BigInt(verdictMatch[1]).toString())?.result
+      ?.verdict;
+    if (!verdict) {
+      sendJSON(res, corsOrigin, 404, { error: "No signed verdict" });
+    } else {
+      sendJSON(res, corsOrigin, 200, verdict);
+    }
+    return;
+  }
+
+  const attestationMatch = pathname.match(/^\/goals\/(\d+)\/attestation$/);
+  if (attestationMatch) {
+    const attestation = deps.queue.get(
+      BigInt(attestationMatch[1]).toString()
+    )?.result?.attestation;
+    if (!attestation) {
+      sendJSON(res, corsOrigin, 404, { error: "No attestation" });
+    } else {
+      sendJSON(res, corsOrigin, 200, attestation);
+    }
+    return;
+  }
+
+  if (pathname === "/shadow") {
+    if (!deps.shadow) {
+      sendJSON(res, corsOrigin, 404, { error: "Not running in shadow mode" });
+      return;
+    }
+    sendJSON(res, corsOrigin, 200, {
+      summary: deps.shadow.summary(),
+      records: deps.shadow.list().map((record) => ({
+        ...record,
+        scoredAt: toISO(record.scoredAt),
+        primarySeenAt: toISO(record.primarySeenAt),
+      })),
+    });
+    return;
+  }
+
+  if (pathname === "/queue") {
+    const jobs = deps.queue.list();
+    const deadLetters = deps.queue.listDeadLetters();
+    sendJSON(res, corsOrigin, 200, {
+      counts: {
+        pending: jobs.filter((job) => job.state === "pending").length,
+        running: jobs.filter((job) => job.state === "running").length,
+        done: jobs.filter((job) => job.state === "done").length,
+        deadLetters: deadLetters.length,
+      },
+      jobs: jobs.filter((job) => job.state !== "done").map(serializeJob),
+      deadLetters: deadLetters.map(serializeJob),
+    });
+    return;
+  }
+
+  sendJSON(res, corsOrigin, 404, { error: "Not found" });
+}
+
+/**
+ * Start the API server on the given port
+ */
+export function startApiServer(port: number, deps: ApiDependencies): Server {
+  const server = createServer((req, res) => {
+    handleRequest(deps, req, res).catch((error) => {
+      console.error("⚠️  API request failed:", error);
+      sendJSON(res, deps.corsOrigin, 500, { error: "Internal error" });
+    });
+  });
+
+  server.listen(port);
+  return server;
+}
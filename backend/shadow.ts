@@ -0,0 +1,158 @@
+/**
+ * Shadow-mode results.
+ * In shadow mode the verifier scores proofs but never submits; each would-be
+ * outcome is stored here and compared with the score the primary verifier
+ * put on-chain, so a new prompt or model can be trialled on live traffic.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { scoreOutcome, type ScoreOutcome } from "./chain";
+
+export interface ShadowRecord {
+  goalId: string;
+  proofURI: string;
+  score: number;
+  reason: string;
+  outcome: ScoreOutcome;
+  model: string;
+  promptVersion: string;
+  scoredAt: number;
+  primaryScore?: number;
+  primaryOutcome?: ScoreOutcome;
+  primaryTxHash?: `0x${string}`;
+  primarySeenAt?: number;
+}
+
+export interface ShadowSummary {
+  scored: number;
+  compared: number;
+  /** Compared goals where the shadow and primary outcomes match */
+  agreed: number;
+  agreementRate: number | null;
+  meanAbsoluteScoreDiff: number | null;
+  /** Primary outcome → shadow outcome → count */
+  outcomes: Record<ScoreOutcome, Record<ScoreOutcome, number>>;
+}
+
+interface ShadowFile {
+  records: ShadowRecord[];
+}
+
+export class ShadowLog {
+  private records = new Map<string, ShadowRecord>();
+  /** Primary scores seen before we scored the goal ourselves */
+  private primaryScores = new Map<string, { score: number; txHash?: `0x${string}` }>();
+
+  constructor(private readonly path: string) {
+    this.load();
+  }
+
+  /** Store the would-be outcome of a shadow scoring run */
+  recordShadow(
+    record: Omit<ShadowRecord, "outcome" | `primary${string}`>
+  ): ShadowRecord {
+    const entry: ShadowRecord = {
+      ...record,
+      outcome: scoreOutcome(record.score),
+    };
+    this.records.set(record.goalId, entry);
+
+    const primary = this.primaryScores.get(record.goalId);
+    if (primary) {
+      this.primaryScores.delete(record.goalId);
+      this.applyPrimary(entry, primary.score, primary.txHash);
+    }
+    this.save();
+    return entry;
+  }
+
+  /**
+   * Store the score the primary verifier put on-chain. Returns the updated
+   * record once both sides are known.
+   */
+  recordPrimary(
+    goalId: string,
+    score: number,
+    txHash?: `0x${string}`
+  ): ShadowRecord | undefined {
+    const entry = this.records.get(goalId);
+    if (!entry) {
+      this.primaryScores.set(goalId, { score, txHash });
+      return undefined;
+    }
+    this.applyPrimary(entry, score, txHash);
+    this.save();
+    return entry;
+  }
+
+  get(goalId: string): ShadowRecord | undefined {
+    return this.records.get(goalId);
+  }
+
+  list(): ShadowRecord[] {
+    return [...this.records.values()];
+  }
+
+  summary(): ShadowSummary {
+    const outcomes = {} as ShadowSummary["outcomes"];
+    for (const primary of ["complete", "vote", "fail"] as const) {
+      outcomes[primary] = { complete: 0, vote: 0, fail: 0 };
+    }
+
+    let compared = 0;
+    let agreed = 0;
+    let totalDiff = 0;
+    for (const record of this.records.values()) {
+      if (record.primaryScore === undefined || !record.primaryOutcome) continue;
+      compared++;
+      if (record.primaryOutcome === record.outcome) agreed++;
+      totalDiff += Math.abs(record.primaryScore - record.score);
+      outcomes[record.primaryOutcome][record.outcome]++;
+    }
+
+    return {
+      scored: this.records.size,
+      compared,
+      agreed,
+      agreementRate: compared > 0 ? agreed / compared : null,
+      meanAbsoluteScoreDiff: compared > 0 ? totalDiff / compared : null,
+      outcomes,
+    };
+  }
+
+  private applyPrimary(
+    entry: ShadowRecord,
+    score: number,
+    txHash?: `0x${string}`
+  ): void {
+    entry.primaryScore = score;
+    entry.primaryOutcome = scoreOutcome(score);
+    entry.primaryTxHash = txHash ?? entry.primaryTxHash;
+    entry.primarySeenAt = Date.now();
+  }
+
+  private load(): void {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const data = JSON.parse(raw) as ShadowFile;
+    for (const record of data.records) {
+      this.records.set(record.goalId, record);
+    }
+  }
+
+  private save(): void {
+    const data: ShadowFile = { records: this.list() };
+
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(data, null, 2));
+    renameSync(tmpPath, this.path);
+  }
+}
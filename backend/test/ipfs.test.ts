@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { detectContentType, PDF_TYPE } from "../ipfs";
+
+const PDF = Buffer.from("%PDF-1.7\n%âãÏÓ\n1 0 obj\n", "latin1");
+const PNG = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a", "hex"),
+  Buffer.alloc(16),
+]);
+const TEXT = Buffer.from("Ran 104km in March, Strava export attached", "utf8");
+
+describe("detectContentType", () => {
+  it("uses the bytes when they contradict the header", () => {
+    assert.equal(detectContentType(PDF, "text/plain; charset=utf-8"), PDF_TYPE);
+    assert.equal(detectContentType(PNG, "application/json"), "image/png");
+    assert.equal(detectContentType(TEXT, "image/png"), "text/plain");
+    assert.equal(detectContentType(TEXT, "application/octet-stream"), "text/plain");
+  });
+
+  it("keeps the header when the bytes have no known signature", () => {
+    assert.equal(detectContentType(TEXT, "application/json"), "application/json");
+    assert.equal(detectContentType(TEXT, null), "text/plain");
+    assert.equal(
+      detectContentType(Buffer.from([0, 1, 2, 3]), "application/octet-stream"),
+      "application/octet-stream"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { openLedger, type NewLedgerEntry } from "../ledger";
+
+const dir = mkdtempSync(join(tmpdir(), "ledger-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function entry(attempt: number): NewLedgerEntry {
+  return {
+    target: "default",
+    goalId: "7",
+    attempt,
+    description: "Run 100km in March",
+    proofURI: "QmProof",
+    contentHash: null,
+    textLength: null,
+    model: "fixture",
+    promptVersion: "v5",
+    rawOutput: null,
+    score: 82,
+    reason: "Strava export covers the month",
+    txHash: null,
+    outcome: "confirmed",
+    error: null,
+    quorum: null,
+    manipulation: null,
+    rubric: "fitness/v1",
+    ensemble: null,
+    contentType: "text/plain",
+    pageCount: null,
+  };
+}
+
+describe("SQLite ledger", () => {
+  it("keeps the rows of two processes writing the same file", async () => {
+    const path = join(dir, "shared.sqlite");
+    // The service and the CLI each open the file
+    const service = await openLedger(undefined, path);
+    const cli = await openLedger(undefined, path);
+
+    await service.record(entry(1));
+    await cli.record(entry(0));
+    await service.record(entry(2));
+    await cli.close();
+
+    const attempts = (await service.listForGoal("default", "7")).map((e) => e.attempt);
+    assert.deepEqual(attempts.sort(), [0, 1, 2]);
+    await service.close();
+    assert.deepEqual(readdirSync(dir), ["shared.sqlite"]);
+  });
+
+  it("rejects a database URL it cannot open", async () => {
+    await assert.rejects(
+      openLedger("mysql://localhost/ledger", join(dir, "unused.sqlite")),
+      /must be a postgres/
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, describe, it } from "node:test";
+import { ProofExtractionError } from "../extract";
+import {
+  classifyFailure,
+  DEFAULT_RETRY_POLICIES,
+  JobQueue,
+  type VerificationJob,
+} from "../queue";
+
+const dir = mkdtempSync(join(tmpdir(), "queue-test-"));
+after(() => rmSync(dir, { recursive: true, force: true }));
+
+function createQueue(
+  name: string,
+  handler: (job: VerificationJob) => Promise<void>,
+  doneRetentionMs?: number
+) {
+  return new JobQueue(
+    {
+      path: join(dir, `${name}.json`),
+      concurrency: 1,
+      maxAttempts: 5,
+      pollIntervalMs: 10,
+      retryPolicies: DEFAULT_RETRY_POLICIES,
+      doneRetentionMs,
+    },
+    handler
+  );
+}
+
+/** Start the queue and resolve with the first job that settles */
+function settle(queue: JobQueue): Promise<VerificationJob> {
+  return new Promise((resolve) => {
+    queue.onSettled((job) => {
+      queue.stop();
+      resolve(job);
+    });
+    queue.start();
+  });
+}
+
+describe("classifyFailure", () => {
+  it("classifies proofs that cannot be decoded as extraction failures", () => {
+    assert.equal(
+      classifyFailure(new ProofExtractionError("Cannot read PDF proof")),
+      "extraction"
+    );
+    assert.equal(DEFAULT_RETRY_POLICIES.extraction.retryable, false);
+  });
+});
+
+describe("JobQueue", () => {
+  it("dead-letters an extraction failure without retrying", async () => {
+    let attempts = 0;
+    const queue = createQueue("extraction", async () => {
+      attempts++;
+      throw new ProofExtractionError("Cannot decode image proof: bad header");
+    });
+    queue.enqueue(1n, "QmCorrupt");
+
+    const job = await settle(queue);
+    assert.equal(job.state, "dead");
+    assert.equal(job.failureClass, "extraction");
+    assert.equal(job.attempts, 1);
+    assert.equal(attempts, 1);
+    assert.deepEqual(
+      queue.listDeadLetters().map((dead) => dead.goalId),
+      ["1"]
+    );
+  });
+
+  it("retries a retryable failure", async () => {
+    let attempts = 0;
+    const queue = createQueue("retry", async () => {
+      attempts++;
+      if (attempts === 1) throw new Error("flaky");
+    });
+    queue.enqueue(2n, "QmProof");
+    // The first retry of an "other" failure waits a minute
+    const job = queue.get("2")!;
+    const settled = settle(queue);
+    while (job.attempts === 0 || job.state !== "pending") {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    assert.equal(job.failureClass, "other");
+    job.nextRunAt = Date.now();
+
+    assert.equal((await settled).state, "done");
+    assert.equal(attempts, 2);
+  });
+
+  it("keeps running jobs after a settled listener throws", async () => {
+    const queue = createQueue("listener", async () => {});
+    const settled: string[] = [];
+    queue.onSettled(() => {
+      throw new Error("listener bug");
+    });
+    const both = new Promise<void>((resolve) =>
+      queue.onSettled((job) => {
+        if (settled.push(job.goalId) === 2) resolve();
+      })
+    );
+    queue.start();
+    queue.enqueue(3n, "QmFirst");
+    queue.enqueue(4n, "QmSecond");
+
+    await both;
+    queue.stop();
+    assert.deepEqual(settled, ["3", "4"]);
+    assert.equal(queue.get("4")!.state, "done");
+  });
+
+  it("drops done jobs past the retention window", async () => {
+    const queue = createQueue("retention", async () => {}, 60_000);
+    queue.enqueue(5n, "QmOld");
+    const old = await settle(queue);
+    old.updatedAt = Date.now() - 120_000;
+    queue.enqueue(6n, "QmRecent");
+
+    await settle(queue);
+    assert.equal(queue.get("5"), undefined);
+    assert.equal(queue.get("6")!.state, "done");
+  });
+});
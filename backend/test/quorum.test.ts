@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { privateKeyToAccount } from "viem/accounts";
+import { loadConfig } from "../config";
+import { signAttestation, verifyAttestation, type AttestedProof } from "../quorum";
+
+const member = privateKeyToAccount(`0x${"11".repeat(32)}`);
+
+const PROOF: AttestedProof = {
+  chainId: 10143,
+  contract: "0x00000000000000000000000000000000000000aa",
+  goalId: "7",
+  proofURI: "QmProof",
+};
+
+async function attest(proof: AttestedProof) {
+  return signAttestation(member, {
+    ...proof,
+    score: 82,
+    reason: "Strava export covers the month",
+    model: "fixture",
+    promptVersion: "v5",
+  });
+}
+
+describe("quorum attestations", () => {
+  it("verifies an attestation for the same proof and deployment", async () => {
+    const attestation = await attest(PROOF);
+    assert.equal(await verifyAttestation(attestation, PROOF, member.address), true);
+  });
+
+  it("rejects an attestation replayed on another chain or contract", async () => {
+    const attestation = await attest(PROOF);
+    for (const other of [
+      { ...PROOF, chainId: 1 },
+      { ...PROOF, contract: "0x00000000000000000000000000000000000000bb" as const },
+    ]) {
+      assert.equal(await verifyAttestation(attestation, other, member.address), false);
+      // Relabelling the attestation does not help: the signature covers both
+      const relabelled = { ...attestation, chainId: other.chainId, contract: other.contract };
+      assert.equal(await verifyAttestation(relabelled, other, member.address), false);
+    }
+  });
+});
+
+describe("quorum config", () => {
+  it("rejects a member address listed twice", () => {
+    const env = {
+      PRIVATE_KEY: `0x${"22".repeat(32)}`,
+      CONTRACT_ADDRESS: PROOF.contract,
+      QUORUM_ROLE: "coordinator",
+      QUORUM_MEMBERS: JSON.stringify([
+        { url: "http://v1:8787", address: member.address },
+        { url: "http://v2:8787", address: member.address.toLowerCase() },
+      ]),
+    };
+    assert.throws(
+      () => loadConfig({ env, requireScoring: false }),
+      /member addresses must be unique/
+    );
+  });
+});
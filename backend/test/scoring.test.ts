@@ -0,0 +1,18 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { scoreOutcome } from "../chain";
+import { ProofExtractionError } from "../extract";
+import { undecodableProofScore } from "../scoring";
+
+describe("undecodableProofScore", () => {
+  it("sends a proof that cannot be decoded to a DAO vote", () => {
+    const result = undecodableProofScore(
+      new ProofExtractionError("Cannot decode image proof: unsupported image format"),
+      3
+    );
+    assert.equal(scoreOutcome(result.score), "vote");
+    assert.equal(result.indeterminate, true);
+    assert.equal(result.rubric, "fitness/v1");
+    assert.match(result.reason, /^Indeterminate: the proof could not be decoded/);
+  });
+});
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PublicClient, TransactionReceipt } from "viem";
+import type { WriteableWalletClient } from "../chain";
+import { TransactionManager, type ContractWrite } from "../txmanager";
+
+const CALL: ContractWrite = {
+  address: "0x0000000000000000000000000000000000000001",
+  abi: [],
+  functionName: "setAIScore",
+  args: [1n, 80n],
+};
+
+/**
+ * A node that mines nothing (the pending count stays at 0) and a wallet
+ * whose sends are settled by the test, one nonce at a time
+ */
+function createChain() {
+  const sends = new Map<
+    number,
+    { resolve: (hash: `0x${string}`) => void; reject: (error: Error) => void }
+  >();
+  const sent: number[] = [];
+  const waiting: Array<() => void> = [];
+
+  const publicClient = {
+    simulateContract: async () => ({}),
+    estimateContractGas: async () => 50_000n,
+    estimateFeesPerGas: async () => ({
+      maxFeePerGas: 10n,
+      maxPriorityFeePerGas: 1n,
+    }),
+    getTransactionCount: async () => 0,
+    waitForTransactionReceipt: async ({ hash }: { hash: `0x${string}` }) =>
+      ({ status: "success", transactionHash: hash }) as TransactionReceipt,
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account: { address: "0x0000000000000000000000000000000000000002" },
+    chain: undefined,
+    writeContract: ({ nonce }: { nonce: number }) =>
+      new Promise<`0x${string}`>((resolve, reject) => {
+        sends.set(nonce, {
+          resolve: (hash) => {
+            sent.push(nonce);
+            resolve(hash);
+          },
+          reject,
+        });
+        waiting.splice(0).forEach((wake) => wake());
+      }),
+  } as unknown as WriteableWalletClient;
+
+  /** Resolves once a send with this nonce is waiting to be settled */
+  async function sending(nonce: number) {
+    while (!sends.has(nonce)) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    const send = sends.get(nonce)!;
+    sends.delete(nonce);
+    return send;
+  }
+
+  const txManager = new TransactionManager(publicClient, walletClient, {
+    confirmations: 1,
+    receiptTimeoutMs: 1_000,
+    feeBumpPercent: 10,
+    maxReplacements: 0,
+  });
+  return { txManager, sending, sent };
+}
+
+describe("TransactionManager nonces", () => {
+  it("hands out consecutive nonces to concurrent writes", async () => {
+    const { txManager, sending, sent } = createChain();
+    const writes = [1, 2, 3].map(() => txManager.write(CALL));
+    for (const nonce of [0, 1, 2]) (await sending(nonce)).resolve(`0x0${nonce}`);
+    await Promise.all(writes);
+    assert.deepEqual([...sent].sort(), [0, 1, 2]);
+  });
+
+  it("does not reuse a nonce still in flight after a failed send", async () => {
+    const { txManager, sending, sent } = createChain();
+    const first = txManager.write(CALL);
+    const second = txManager.write(CALL);
+
+    // Nonce 0 fails while nonce 1 is still being sent; the node has seen
+    // neither, so its pending count is still 0
+    const secondSend = await sending(1);
+    (await sending(0)).reject(new Error("connection reset"));
+    await assert.rejects(first, /connection reset/);
+
+    const third = txManager.write(CALL);
+    const fourth = txManager.write(CALL);
+    // The released nonce 0 is reused, then allocation continues after 1
+    (await sending(0)).resolve("0x00");
+    (await sending(2)).resolve("0x02");
+    secondSend.resolve("0x01");
+    await Promise.all([second, third, fourth]);
+
+    assert.deepEqual([...sent].sort(), [0, 1, 2]);
+  });
+});
@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { PublicClient } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { recoverVerdictSigner, signVerdict } from "../verdict";
+
+const signer = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const CONTRACT = "0x00000000000000000000000000000000000000cc";
+
+// getGoalNonce is the only read signVerdict makes
+const publicClient = {
+  readContract: async () => 3n,
+} as unknown as PublicClient;
+
+describe("signed verdicts", () => {
+  it("recovers the verifier's address from a signed verdict", async () => {
+    const verdict = await signVerdict(publicClient, signer, CONTRACT, 7n, 82);
+    assert.equal(verdict.nonce, "3");
+    assert.equal(await recoverVerdictSigner(verdict), signer.address);
+  });
+
+  it("recovers another address once the goal, score or nonce changes", async () => {
+    const verdict = await signVerdict(publicClient, signer, CONTRACT, 7n, 82);
+    for (const tampered of [
+      { ...verdict, score: 95 },
+      { ...verdict, nonce: "4" },
+      { ...verdict, goalId: "8" },
+    ]) {
+      assert.notEqual(await recoverVerdictSigner(tampered), signer.address);
+    }
+  });
+});
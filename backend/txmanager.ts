@@ -0,0 +1,289 @@
+/**
+ * Transaction manager for verifier writes.
+ * Simulates each call first, allocates nonces locally so concurrent jobs do
+ * not collide, waits for receipts, and replaces stuck transactions with
+ * bumped fees. Reverts are decoded into typed errors.
+ */
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  WaitForTransactionReceiptTimeoutError,
+  type Abi,
+  type PublicClient,
+  type TransactionReceipt,
+} from "viem";
+import type { WriteableWalletClient } from "./chain";
+
+/**
+ * Raised when a contract call reverts, either in simulation or on-chain
+ */
+export class ContractRevertError extends Error {
+  constructor(readonly reason: string) {
+    super(`Contract reverted: ${reason}`);
+    this.name = "ContractRevertError";
+  }
+}
+
+/** The goal was already resolved (e.g. scored by another verifier or voted on) */
+export class GoalNotActiveError extends ContractRevertError {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "GoalNotActiveError";
+  }
+}
+
+/** The goal id is past `goalCounter` */
+export class GoalNotFoundError extends ContractRevertError {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "GoalNotFoundError";
+  }
+}
+
+/**
+ * The wallet is not the contract's `aiVerifier`, or a signed verdict was not
+ * signed by its `aiSigner` (or was signed for a stale nonce)
+ */
+export class NotVerifierError extends ContractRevertError {
+  constructor(reason: string) {
+    super(reason);
+    this.name = "NotVerifierError";
+  }
+}
+
+/**
+ * Raised when a transaction is still unmined after all fee bumps
+ */
+export class TransactionStuckError extends Error {
+  constructor(
+    readonly hashes: `0x${string}`[],
+    readonly nonce: number
+  ) {
+    super(
+      `Transaction with nonce ${nonce} not mined after ${hashes.length} attempt(s)`
+    );
+    this.name = "TransactionStuckError";
+  }
+}
+
+// Revert strings from StakeYourGoal.sol and StakeYourGoalSecure.sol mapped to typed errors
+const REVERT_ERRORS: Record<string, new (reason: string) => ContractRevertError> = {
+  "Goal not active": GoalNotActiveError,
+  "Vote already resolved": GoalNotActiveError,
+  "Goal does not exist": GoalNotFoundError,
+  "Only AI verifier can call": NotVerifierError,
+  "Invalid AI signature": NotVerifierError,
+};
+
+/**
+ * Turn a viem error into a typed revert error, or null if it is not a revert
+ */
+export function decodeRevert(error: unknown): ContractRevertError | null {
+  if (!(error instanceof BaseError)) return null;
+
+  const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+  if (!(revert instanceof ContractFunctionRevertedError)) return null;
+
+  const reason = revert.reason ?? revert.data?.errorName ?? "unknown reason";
+  const ErrorClass = REVERT_ERRORS[reason] ?? ContractRevertError;
+  return new ErrorClass(reason);
+}
+
+export interface TransactionManagerOptions {
+  confirmations: number;
+  receiptTimeoutMs: number;
+  feeBumpPercent: number;
+  maxReplacements: number;
+}
+
+export interface ContractWrite {
+  address: `0x${string}`;
+  abi: Abi;
+  functionName: string;
+  args: readonly unknown[];
+}
+
+export class TransactionManager {
+  /** Next fresh nonce; undefined until synced with the node's pending count */
+  private nextNonce: number | undefined;
+  /** Allocated nonces whose write has not settled yet */
+  private outstanding = new Set<number>();
+  /** Nonces whose transaction was never sent, handed out again first */
+  private released = new Set<number>();
+  private nonceLock: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly publicClient: PublicClient,
+    private readonly walletClient: WriteableWalletClient,
+    private readonly options: TransactionManagerOptions
+  ) {}
+
+  /**
+   * Simulate, send and confirm a contract write.
+   * Resolves with the successful receipt; throws a ContractRevertError if the
+   * call reverts or TransactionStuckError if it never gets mined.
+   */
+  async write(call: ContractWrite): Promise<TransactionReceipt> {
+    const account = this.walletClient.account;
+
+    try {
+      await this.publicClient.simulateContract({ ...call, account });
+    } catch (error) {
+      throw decodeRevert(error) ?? error;
+    }
+
+    const gas = await this.publicClient.estimateContractGas({
+      ...call,
+      account,
+    });
+    const fees = await this.publicClient.estimateFeesPerGas();
+    const nonce = await this.allocateNonce();
+    try {
+      return await this.send(call, gas, fees, nonce);
+    } finally {
+      this.outstanding.delete(nonce);
+    }
+  }
+
+  /**
+   * Send with an allocated nonce, replacing the transaction with higher fees
+   * until it is mined or the replacements run out
+   */
+  private async send(
+    call: ContractWrite,
+    gas: bigint,
+    fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+    nonce: number
+  ): Promise<TransactionReceipt> {
+    const account = this.walletClient.account;
+    const hashes: `0x${string}`[] = [];
+
+    for (let attempt = 0; attempt <= this.options.maxReplacements; attempt++) {
+      if (attempt > 0) {
+        fees = await this.bumpFees(fees);
+        console.warn(
+          `⛽ Replacing stuck transaction (nonce ${nonce}, attempt ${attempt}/${this.options.maxReplacements})`
+        );
+      }
+
+      try {
+        const hash = await this.walletClient.writeContract({
+          ...call,
+          account,
+          chain: this.walletClient.chain,
+          gas,
+          nonce,
+          maxFeePerGas: fees.maxFeePerGas,
+          maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        });
+        hashes.push(hash);
+      } catch (error) {
+        // A replacement can fail because an earlier attempt was just mined
+        if (hashes.length === 0) {
+          // Nothing went out with this nonce: reuse it, and re-read the
+          // node's count in case the failure was a nonce conflict
+          this.released.add(nonce);
+          this.nextNonce = undefined;
+          throw error;
+        }
+      }
+
+      try {
+        // viem follows replacements, so waiting on the latest hash also
+        // resolves if an earlier attempt with the same nonce gets mined
+        const receipt = await this.publicClient.waitForTransactionReceipt({
+          hash: hashes[hashes.length - 1],
+          confirmations: this.options.confirmations,
+          timeout: this.options.receiptTimeoutMs,
+        });
+        return this.checkReceipt(call, receipt);
+      } catch (error) {
+        if (!(error instanceof WaitForTransactionReceiptTimeoutError)) {
+          throw error;
+        }
+      }
+    }
+
+    // Let the next allocation re-read the pending nonce from the node
+    this.nextNonce = undefined;
+    throw new TransactionStuckError(hashes, nonce);
+  }
+
+  private async checkReceipt(
+    call: ContractWrite,
+    receipt: TransactionReceipt
+  ): Promise<TransactionReceipt> {
+    if (receipt.status === "success") return receipt;
+
+    // Re-run the call against the mined block to recover the revert reason
+    try {
+      await this.publicClient.simulateContract({
+        ...call,
+        account: this.walletClient.account,
+        blockNumber: receipt.blockNumber,
+      });
+    } catch (error) {
+      const revert = decodeRevert(error);
+      if (revert) throw revert;
+    }
+    throw new ContractRevertError(
+      `transaction ${receipt.transactionHash} reverted`
+    );
+  }
+
+  /**
+   * Allocate a nonce, one caller at a time. After a failure the node's
+   * pending count is read again, but never below a nonce still in flight:
+   * those may not have reached the node yet. Nonces released by failed sends
+   * in between are reused first, so no gap is left behind them.
+   */
+  private async allocateNonce(): Promise<number> {
+    const allocation = this.nonceLock.then(async () => {
+      if (this.nextNonce === undefined) {
+        const pending = await this.publicClient.getTransactionCount({
+          address: this.walletClient.account.address,
+          blockTag: "pending",
+        });
+        const next = Math.max(
+          pending,
+          ...[...this.outstanding].map((nonce) => nonce + 1)
+        );
+        for (const nonce of this.released) {
+          if (nonce < pending || nonce >= next) this.released.delete(nonce);
+        }
+        this.nextNonce = next;
+      }
+
+      const nonce =
+        this.released.size > 0
+          ? Math.min(...this.released)
+          : this.nextNonce++;
+      this.released.delete(nonce);
+      this.outstanding.add(nonce);
+      return nonce;
+    });
+    this.nonceLock = allocation.catch(() => undefined);
+    return allocation;
+  }
+
+  private async bumpFees(fees: {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }) {
+    const bump = (value: bigint) =>
+      (value * BigInt(100 + this.options.feeBumpPercent)) / 100n;
+    const current = await this.publicClient.estimateFeesPerGas();
+
+    return {
+      maxFeePerGas:
+        bump(fees.maxFeePerGas) > current.maxFeePerGas
+          ? bump(fees.maxFeePerGas)
+          : current.maxFeePerGas,
+      maxPriorityFeePerGas:
+        bump(fees.maxPriorityFeePerGas) > current.maxPriorityFeePerGas
+          ? bump(fees.maxPriorityFeePerGas)
+          : current.maxPriorityFeePerGas,
+    };
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Signed AI verdicts for StakeYourGoalSecure.
+ * The verifier signs `keccak256(abi.encodePacked(goalId, score, nonce))` as an
+ * eth-signed message; anyone (the goal owner, a relayer, the verifier itself)
+ * can then submit it with `submitAIVerdictWithSignature`, so the verifier
+ * needs no gas and is not the only account that can finalize goals.
+ *
+ * StakeYourGoalSecure keeps its own goals and has no proof submission, so
+ * proofs still come from StakeYourGoal. A goal id means the same goal on
+ * both contracts only when both hold it with the same owner and
+ * description; verdicts are signed only for such goals.
+ */
+
+import {
+  encodePacked,
+  isAddressEqual,
+  keccak256,
+  recoverMessageAddress,
+  type LocalAccount,
+  type PublicClient,
+  zeroAddress,
+} from "viem";
+import { getGoalNonce, getSecureGoal, SECURE_CONTRACT_ABI } from "./chain";
+import type { TransactionManager } from "./txmanager";
+
+/**
+ * The verdict contract does not hold the StakeYourGoal goal under the same
+ * id, so a verdict would resolve another goal (or none)
+ */
+export class VerdictGoalMismatchError extends Error {
+  constructor(
+    readonly goalId: string,
+    detail: string
+  ) {
+    super(`Goal #${goalId} on the verdict contract ${detail}`);
+    this.name = "VerdictGoalMismatchError";
+  }
+}
+
+export interface SignedVerdict {
+  contract: `0x${string}`;
+  goalId: string;
+  score: number;
+  /** Goal nonce the signature is bound to; a submitted verdict bumps it */
+  nonce: string;
+  signature: `0x${string}`;
+  signer: `0x${string}`;
+  signedAt: number;
+}
+
+/**
+ * The message hash the contract rebuilds before recovering the signer
+ */
+export function verdictHash(
+  goalId: bigint,
+  score: number,
+  nonce: bigint
+): `0x${string}` {
+  return keccak256(
+    encodePacked(
+      ["uint256", "uint64", "uint256"],
+      [goalId, BigInt(score), nonce]
+    )
+  );
+}
+
+/**
+ * Read the verdict contract's goal with the same id and check it is the
+ * StakeYourGoal goal: same owner, same description
+ */
+export async function getMatchingVerdictGoal(
+  publicClient: PublicClient,
+  contractAddress: `0x${string}`,
+  goalId: bigint,
+  goal: { user: `0x${string}`; description: string }
+) {
+  const verdictGoal = await getSecureGoal(publicClient, contractAddress, goalId);
+  if (isAddressEqual(verdictGoal.user, zeroAddress)) {
+    throw new VerdictGoalMismatchError(goalId.toString(), "does not exist");
+  }
+  if (
+    !isAddressEqual(verdictGoal.user, goal.user) ||
+    verdictGoal.description !== goal.description
+  ) {
+    throw new VerdictGoalMismatchError(
+      goalId.toString(),
+      `has another owner or description (${verdictGoal.user}: "${verdictGoal.description}")`
+    );
+  }
+  return verdictGoal;
+}
+
+/**
+ * Sign a verdict for the goal's current nonce
+ */
+export async function signVerdict(
+  publicClient: PublicClient,
+  account: LocalAccount,
+  contractAddress: `0x${string}`,
+  goalId: bigint,
+  score: number
+): Promise<SignedVerdict> {
+  if (score < 0 || score > 100) {
+    throw new Error("Score must be between 0 and 100");
+  }
+
+  const nonce = await getGoalNonce(publicClient, contractAddress, goalId);
+  const signature = await account.signMessage({
+    message: { raw: verdictHash(goalId, score, nonce) },
+  });
+
+  return {
+    contract: contractAddress,
+    goalId: goalId.toString(),
+    score,
+    nonce: nonce.toString(),
+    signature,
+    signer: account.address,
+    signedAt: Date.now(),
+  };
+}
+
+/**
+ * Recover the address that signed a verdict, as the contract does
+ */
+export async function recoverVerdictSigner(
+  verdict: SignedVerdict
+): Promise<`0x${string}`> {
+  return recoverMessageAddress({
+    message: {
+      raw: verdictHash(
+        BigInt(verdict.goalId),
+        verdict.score,
+        BigInt(verdict.nonce)
+      ),
+    },
+    signature: verdict.signature,
+  });
+}
+
+/**
+ * Submit a signed verdict from the verifier's own account
+ * Resolves with the confirmed receipt; reverts surface as typed errors
+ */
+export async function relayVerdict(
+  txManager: TransactionManager,
+  verdict: SignedVerdict
+) {
+  return txManager.write({
+    address: verdict.contract,
+    abi: SECURE_CONTRACT_ABI,
+    functionName: "submitAIVerdictWithSignature",
+    args: [BigInt(verdict.goalId), BigInt(verdict.score), verdict.signature],
+  });
+}
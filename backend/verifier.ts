@@ -1,150 +1,1224 @@
 import "dotenv/config";
+import { createHash } from "node:crypto";
+import { isAddressEqual } from "viem";
 import {
   initializeClients,
-  watchProofSubmitted,
   watchGoalCreated,
   watchGoalVerified,
+  watchVoteStarted,
+  watchCharityDonation,
   getGoal,
+  getProofSubmittedLogs,
   submitAIScore,
+  scoreOutcome,
+  getAISigner,
+  watchAIScoredProof,
+  expireGoal,
+  resolveVote,
+  getVoteInfo,
+  getVoteParams,
+  watchVoteExtended,
+  watchVoteResolved,
 } from "./chain";
-import { scoreProof } from "./groq";
-import { fetchProofFromIPFS, parseProofContent } from "./ipfs";
-
-// Track processed goals to avoid duplicate processing
-const processedGoals = new Set<bigint>();
-const processingGoals = new Set<bigint>();
+import { CheckpointTracker, loadCheckpoint } from "./checkpoint";
+import {
+  formatConfig,
+  loadConfig,
+  type TargetConfig,
+  type VerifierConfig,
+} from "./config";
+import { categoryName } from "./rubrics";
+import {
+  PROMPT_VERSION,
+  scoreProof,
+  undecodableProofScore,
+  type ProofScore,
+} from "./scoring";
+import { describeProof, extractProof, ProofExtractionError } from "./extract";
+import { fetchProofFromIPFS } from "./ipfs";
+import { createNotifier, type Notifier } from "./notifier";
+import {
+  checkpointLag,
+  goalsExpired,
+  observeQueue,
+  proofsReceived,
+  proofsSuperseded,
+  quorumOutcomes,
+  reorgsDetected,
+  scoreDistribution,
+  shadowComparisons,
+  timeStage,
+  txReverts,
+  votesResolved,
+} from "./metrics";
+import { openLedger, type NewLedgerEntry, type VerificationLedger } from "./ledger";
+import { JobQueue, type VerificationJob } from "./queue";
+import { findExpiredGoals, findOpenVotes, findUnscoredGoals } from "./reconcile";
+import { startApiServer, type ApiTarget } from "./server";
+import { ShadowLog, type ShadowRecord } from "./shadow";
+import { getMatchingVerdictGoal, relayVerdict, signVerdict } from "./verdict";
+import {
+  aggregateScores,
+  collectAttestations,
+  QuorumPendingError,
+  signAttestation,
+} from "./quorum";
+import {
+  ContractRevertError,
+  GoalNotActiveError,
+  TransactionManager,
+} from "./txmanager";
 
-async function processProofSubmission(goalId: bigint, proofURI: string) {
-  // Prevent duplicate processing
-  if (processedGoals.has(goalId) || processingGoals.has(goalId)) {
-    console.log(`⏭️  Goal #${goalId.toString()} already processed, skipping`);
-    return;
+/**
+ * Raised when a goal has lost its proof altogether, i.e. the ProofSubmitted
+ * transaction was reorged away; retried in case it is included again
+ */
+class ProofMissingError extends Error {
+  constructor(goalId: string, proofURI: string) {
+    super(`Goal #${goalId} no longer has proof ${proofURI} on-chain`);
+    this.name = "ProofMissingError";
   }
+}
+
+/**
+ * Clients and state for one target, shared by its jobs. The transaction
+ * manager must be a single instance per account so nonces are allocated
+ * from one counter.
+ */
+type VerifierContext = ReturnType<typeof initializeClients> & {
+  config: VerifierConfig;
+  target: TargetConfig;
+  txManager: TransactionManager;
+  /** Shared by all targets; entries carry the target name */
+  ledger: VerificationLedger;
+  notifier: Pick<Notifier, "notify">;
+  /** Set in shadow mode only */
+  shadow?: ShadowLog;
+  /** Logs holding the checkpoint, keyed by goal id, released when the job settles */
+  heldLogs: Map<string, string[]>;
+  /** Open DAO votes and their deadlines (unix seconds), keyed by goal id */
+  voteDeadlines: Map<string, bigint>;
+};
+
+function createContext(
+  config: VerifierConfig,
+  target: TargetConfig,
+  ledger: VerificationLedger,
+  notifier: Notifier
+): VerifierContext {
+  const clients = initializeClients(target);
+  const txManager = new TransactionManager(
+    clients.publicClient,
+    clients.walletClient,
+    config.tx
+  );
+  const shadow =
+    config.mode === "shadow" ? new ShadowLog(target.shadowFile) : undefined;
+  return {
+    ...clients,
+    config,
+    target,
+    txManager,
+    ledger,
+    // Only tag notifications when there is more than one target to tell apart
+    notifier:
+      config.targets.length > 1 ? notifier.forTarget(target.name) : notifier,
+    shadow,
+    heldLogs: new Map(),
+    voteDeadlines: new Map(),
+  };
+}
 
-  processingGoals.add(goalId);
+/**
+ * Score a proof and submit the result on-chain, recording the score, reason
+ * and transaction on the job. Resolves once the score transaction is
+ * confirmed (or the goal was already resolved); throws so the job queue can
+ * retry or dead-letter the goal. Every attempt is written to the ledger.
+ */
+async function processProofSubmission(
+  ctx: VerifierContext,
+  job: VerificationJob
+) {
+  const goalId = BigInt(job.goalId);
+  const proofURI = job.proofURI;
+  const entry: NewLedgerEntry = {
+    target: ctx.target.name,
+    goalId: job.goalId,
+    attempt: job.attempts,
+    description: null,
+    proofURI,
+    contentHash: null,
+    textLength: null,
+    model: null,
+    promptVersion: null,
+    rawOutput: null,
+    score: null,
+    reason: null,
+    txHash: null,
+    outcome: "error",
+    error: null,
+    quorum: null,
+    manipulation: null,
+    rubric: null,
+    ensemble: null,
+    contentType: null,
+    pageCount: null,
+  };
 
   try {
-    const { publicClient, walletClient, contractAddress, account } =
-      initializeClients();
+    const { publicClient, contractAddress, account, config } = ctx;
 
-    console.log(`\n🔍 Processing proof for goal #${goalId.toString()}`);
+    console.log(
+      `\n🔍 Processing proof for goal #${goalId.toString()} on ${ctx.target.name}`
+    );
     console.log(`📎 Proof URI: ${proofURI}`);
     console.log(`🔗 Verifier: ${account.address}`);
 
     // Step 1: Fetch goal details from contract
     console.log("📥 Fetching goal details from contract...");
-    const goalData = await getGoal(publicClient, contractAddress, goalId);
-    const goal = goalData as any;
+    const goal = await timeStage(ctx.target.name, "contract_read", () =>
+      getGoal(publicClient, contractAddress, goalId)
+    );
+
+    // In shadow mode the primary verifier may already have scored the goal
+    const primaryScore =
+      ctx.shadow && (goal.status !== 0 || goal.aiScore > 0n)
+        ? Number(goal.aiScore)
+        : undefined;
+
+    // Replayed logs may refer to goals that were resolved in the meantime
+    if (goal.status !== 0 && !ctx.shadow) {
+      console.log(
+        `⏭️  Goal #${goalId.toString()} already resolved (status ${goal.status}), skipping`
+      );
+      entry.outcome = "already_resolved";
+      return;
+    }
+    if (!isCurrentProof(ctx, goal, entry)) return;
 
     const description = goal.description || "No description";
-    console.log(`📝 Goal: ${description}`);
+    console.log(`📝 Goal: ${description} (${categoryName(goal.category)})`);
+    entry.description = description;
+
+    // A quorum coordinator does not score itself; it submits the members' aggregate
+    if (config.quorum.role === "coordinator") {
+      await aggregateQuorum(ctx, job, entry);
+      await submitScore(ctx, job, entry);
+      return;
+    }
 
     // Step 2: Fetch proof content from IPFS
     console.log("🌐 Fetching proof from IPFS...");
-    const proofContent = await fetchProofFromIPFS(proofURI);
-    const parsedProof = parseProofContent(proofContent);
-    console.log(`✅ Proof content fetched (${parsedProof.length} characters)`);
-
-    // Step 3: Score with Groq + Llama 3.3
-    console.log("🤖 Scoring proof with Llama 3.3 70B...");
-    const { score, reason } = await scoreProof(description, parsedProof);
-    console.log(`📊 AI Score: ${score}/100`);
-    console.log(`💬 Reason: ${reason}`);
-
-    // Step 4: Determine outcome
-    if (score >= 75) {
-      console.log("🏆 Auto-completing goal (score >= 75)");
-      console.log("🎖️  NFT badge will be minted automatically");
-    } else if (score < 40) {
-      console.log("❌ Auto-failing goal (score < 40)");
-      console.log("💸 Charity donation will be triggered");
+    const proofContent = await timeStage(ctx.target.name, "ipfs_fetch", () =>
+      fetchProofFromIPFS(config.ipfs, proofURI)
+    );
+    entry.contentHash = createHash("sha256")
+      .update(proofContent.data)
+      .digest("hex");
+    const extracted = await timeStage(ctx.target.name, "extract", () =>
+      extractProof(config.scoring, proofContent)
+    ).catch((error: unknown) => {
+      if (error instanceof ProofExtractionError) return error;
+      throw error;
+    });
+    entry.contentType = proofContent.contentType;
+
+    // Step 3: Score with the configured provider. A proof that cannot be
+    // decoded would fail the same way on every retry, and a dead-lettered
+    // goal keeps its stake locked, so it goes to a DAO vote instead.
+    let scored: ProofScore;
+    if (extracted instanceof ProofExtractionError) {
+      console.log(`⚠️  ${extracted.message}`);
+      scored = undecodableProofScore(extracted, goal.category);
+    } else {
+      console.log(
+        `✅ Proof content fetched (${proofContent.contentType}, ${describeProof(extracted)})`
+      );
+      entry.textLength = extracted.text.length;
+      entry.pageCount = extracted.document?.pages ?? null;
+
+      const scoringModel = extracted.images.length
+        ? config.scoring.visionModel ?? config.scoring.model
+        : config.scoring.model;
+      console.log(`🤖 Scoring proof with ${scoringModel}...`);
+      entry.model = scoringModel;
+      entry.promptVersion = PROMPT_VERSION;
+      scored = await timeStage(ctx.target.name, "llm_call", () =>
+        scoreProof(config.scoring, description, extracted.text, {
+          images: extracted.images,
+          category: goal.category,
+        })
+      );
+    }
+    const {
+      score,
+      reason,
+      raw,
+      model,
+      indeterminate,
+      manipulation,
+      rubric,
+      ensemble,
+    } = scored;
+    if (indeterminate) {
+      // Not a judgement of the proof, so kept out of the score distribution
+      console.log(
+        `⚖️  No verdict on the proof, sending the goal to a DAO vote (score ${score})`
+      );
     } else {
-      console.log("🗳️  Mid-range score — triggering DAO vote");
+      scoreDistribution.observe({ target: ctx.target.name }, score);
+      console.log(`📊 AI Score: ${score}/100`);
+    }
+    if (ensemble) {
+      console.log(
+        `🎲 Ensemble: median ${ensemble.median}, spread ${ensemble.spread}, confidence ${ensemble.confidence}${ensemble.lowConfidence ? " (low, sent to a DAO vote)" : ""}`
+      );
     }
+    if (manipulation.flagged) {
+      console.log(
+        `🛡️  Manipulation attempt flagged (${manipulation.signals.join("; ")}), applying the ${config.scoring.manipulationPolicy} policy`
+      );
+    }
+    console.log(`💬 Reason: ${reason} (rubric ${rubric})`);
+    Object.assign(entry, {
+      model,
+      rawOutput: raw,
+      ensemble: ensemble ? JSON.stringify(ensemble) : null,
+      rubric,
+      score,
+      reason,
+      manipulation: manipulation.flagged
+        ? JSON.stringify(manipulation.signals)
+        : null,
+    });
+    job.result = {
+      score,
+      reason,
+      model,
+      rubric,
+      scoredAt: Date.now(),
+      ...(indeterminate && { indeterminate }),
+      ...(manipulation.flagged && { manipulation: manipulation.signals }),
+      ...(ensemble && { ensemble }),
+    };
 
-    // Step 5: Submit score on-chain
-    console.log("⛓️  Submitting score on-chain...");
-    const hash = await submitAIScore(
-      walletClient,
-      contractAddress,
-      goalId,
-      score
-    );
-    console.log(`✅ Transaction submitted: ${hash}`);
+    if (ctx.shadow) {
+      const record = ctx.shadow.recordShadow({
+        goalId: job.goalId,
+        proofURI,
+        score,
+        reason,
+        model,
+        promptVersion: PROMPT_VERSION,
+        scoredAt: job.result.scoredAt,
+      });
+      console.log(`🌒 Shadow mode: would ${record.outcome}, not submitting`);
+      if (primaryScore !== undefined) {
+        logShadowComparison(
+          ctx,
+          ctx.shadow.recordPrimary(job.goalId, primaryScore)!
+        );
+      }
+      entry.outcome = "shadow";
+      return;
+    }
 
-    // Mark as processed
-    processedGoals.add(goalId);
-    console.log(
-      `✨ Goal #${goalId.toString()} processing complete!\n`
-    );
+    // Quorum members only attest; the coordinator submits the aggregate
+    if (config.quorum.role === "member") {
+      job.result.attestation = await signAttestation(account, {
+        chainId: ctx.target.chainId,
+        contract: ctx.contractAddress,
+        goalId: job.goalId,
+        proofURI,
+        score,
+        reason,
+        model,
+        promptVersion: PROMPT_VERSION,
+      });
+      console.log("✍️  Score attested for the quorum coordinator, not submitting");
+      entry.outcome = "attested";
+      return;
+    }
+
+    await submitScore(ctx, job, entry);
   } catch (error) {
+    entry.error = error instanceof Error ? error.message : String(error);
+    if (error instanceof ContractRevertError) {
+      txReverts.inc({ target: ctx.target.name, error: error.name });
+    }
+    // Resolved between our read and our write (e.g. another verifier won)
+    if (error instanceof GoalNotActiveError) {
+      console.log(
+        `⏭️  Goal #${goalId.toString()} was resolved before our score landed, skipping`
+      );
+      entry.outcome = "already_resolved";
+      return;
+    }
+    if (error instanceof ContractRevertError) {
+      entry.outcome = "reverted";
+    }
+    if (error instanceof QuorumPendingError) {
+      console.log(`⏳ Goal #${goalId.toString()}: ${error.message}, waiting for members`);
+      throw error;
+    }
     console.error(
       `❌ Failed to process goal #${goalId.toString()}:`,
       error
     );
-    // Don't mark as processed on error, allow retry
+    throw error;
   } finally {
-    processingGoals.delete(goalId);
+    // The ledger is an audit trail; failing to write it must not fail the job
+    await ctx.ledger.record(entry).catch((error) =>
+      console.warn(`⚠️  Failed to write ledger entry for goal #${job.goalId}:`, error)
+    );
   }
 }
 
-async function startVerifier() {
-  console.log("\n🚀 TimeVault AI Verifier starting...");
-  console.log("=======================================");
+/**
+ * Quorum coordinator: collect the members' attested scores for this proof
+ * and record their aggregate as the job's result. Throws QuorumPendingError,
+ * which the queue retries, until enough members have scored the proof.
+ */
+async function aggregateQuorum(
+  ctx: VerifierContext,
+  job: VerificationJob,
+  entry: NewLedgerEntry
+) {
+  const { members, minScores, maxSpread } = ctx.config.quorum;
+  console.log(
+    `🤝 Collecting quorum scores from ${members.length} member(s)...`
+  );
+  const attestations = await collectAttestations(members, ctx.target.name, {
+    chainId: ctx.target.chainId,
+    contract: ctx.contractAddress,
+    goalId: job.goalId,
+    proofURI: job.proofURI,
+  });
+  const quorum = aggregateScores(attestations, minScores, maxSpread);
+  quorumOutcomes.inc({
+    target: ctx.target.name,
+    result: quorum.disputed ? "disputed" : "agreed",
+  });
+  console.log(
+    `📊 Quorum score: ${quorum.score}/100 (median ${quorum.median}, spread ${quorum.spread}, ${attestations.length} score(s))`
+  );
+  if (quorum.disputed) {
+    console.log(
+      `⚖️  Spread above ${maxSpread}, sending the goal to a DAO vote`
+    );
+  }
 
-  try {
-    const { publicClient, contractAddress } = initializeClients();
+  // Explain the score with the member closest to the median
+  const closest = attestations.reduce((best, attestation) =>
+    Math.abs(attestation.score - quorum.median) <
+    Math.abs(best.score - quorum.median)
+      ? attestation
+      : best
+  );
+  const models = [...new Set(attestations.map((a) => a.model))].join(",");
+  job.result = {
+    score: quorum.score,
+    reason: closest.reason,
+    model: `quorum(${models})`,
+    scoredAt: Date.now(),
+    quorum,
+  };
+  Object.assign(entry, {
+    model: job.result.model,
+    promptVersion: closest.promptVersion,
+    score: quorum.score,
+    reason: closest.reason,
+    quorum: JSON.stringify(quorum),
+  });
+}
 
-    console.log(`✅ Connected to Monad Testnet`);
-    console.log(`📋 Contract: ${contractAddress}`);
-    console.log(`🤖 Model: Llama 3.3 70B (via Groq)`);
-    console.log("=======================================\n");
+/**
+ * Whether the goal's on-chain proof is still the one being scored. If the
+ * user submitted a new proof, it gets its own job and this one is recorded as
+ * superseded; if the proof vanished (reorg), ProofMissingError is thrown.
+ */
+function isCurrentProof(
+  ctx: VerifierContext,
+  goal: { proofURI: string },
+  entry: NewLedgerEntry
+): boolean {
+  if (goal.proofURI === entry.proofURI) return true;
+  if (goal.proofURI === "") {
+    throw new ProofMissingError(entry.goalId, entry.proofURI);
+  }
+  console.log(
+    `⏭️  Goal #${entry.goalId} proof was replaced by ${goal.proofURI}, skipping ${entry.proofURI}`
+  );
+  proofsSuperseded.inc({ target: ctx.target.name });
+  entry.outcome = "superseded";
+  return false;
+}
 
-    // Watch for GoalCreated events (log new goals)
-    const unwatchCreated = watchGoalCreated(publicClient, contractAddress, async (logs) => {
-      for (const log of logs) {
-        const args = log.args as any;
-        if (args.goalId !== undefined) {
-          console.log(`📢 New goal created: #${args.goalId.toString()}`);
-          console.log(`   User: ${args.user}`);
-          console.log(`   Stake: ${args.stakeAmount?.toString()} wei`);
-          console.log(`   Description: ${args.description || "N/A"}\n`);
-        }
+/**
+ * Steps 4-5: announce the outcome and put the job's score on-chain, either as
+ * a transaction or as a signed verdict
+ */
+async function submitScore(
+  ctx: VerifierContext,
+  job: VerificationJob,
+  entry: NewLedgerEntry
+) {
+  const { publicClient, txManager, contractAddress } = ctx;
+  const result = job.result!;
+  const { score, reason } = result;
+
+  // Scoring takes a while: the user may have submitted another proof, or the
+  // proof's block may have been reorged away, since step 1 read the goal
+  const goal = await timeStage(ctx.target.name, "contract_read", () =>
+    getGoal(publicClient, contractAddress, BigInt(job.goalId))
+  );
+  if (goal.status !== 0) {
+    console.log(
+      `⏭️  Goal #${job.goalId} was resolved while scoring (status ${goal.status}), skipping`
+    );
+    entry.outcome = "already_resolved";
+    return;
+  }
+  if (!isCurrentProof(ctx, goal, entry)) return;
+
+  // Step 4: Determine outcome
+  ctx.notifier.notify({
+    type: "score_computed",
+    goalId: job.goalId,
+    score,
+    reason,
+    outcome: scoreOutcome(score),
+  });
+  if (score >= 75) {
+    console.log("🏆 Auto-completing goal (score >= 75)");
+    console.log("🎖️  NFT badge will be minted automatically");
+  } else if (score < 40) {
+    console.log("❌ Auto-failing goal (score < 40)");
+    console.log("💸 Charity donation will be triggered");
+  } else {
+    console.log("🗳️  Mid-range score — triggering DAO vote");
+  }
+
+  if (ctx.config.verdict.mode === "signature") {
+    await signAndRelayVerdict(ctx, job, entry, goal);
+    return;
+  }
+
+  // Step 5: Submit score on-chain and wait for confirmation
+  console.log("⛓️  Submitting score on-chain...");
+  const receipt = await timeStage(ctx.target.name, "tx_submit", () =>
+    submitAIScore(txManager, contractAddress, BigInt(job.goalId), score)
+  );
+  console.log(
+    `✅ Transaction confirmed: ${receipt.transactionHash} (block ${receipt.blockNumber})`
+  );
+  result.txHash = receipt.transactionHash;
+  result.confirmedAt = Date.now();
+  entry.txHash = receipt.transactionHash;
+  entry.outcome = "confirmed";
+
+  console.log(
+    `✨ Goal #${job.goalId} processing complete!\n`
+  );
+}
+
+/**
+ * Step 5, signature mode: sign the verdict for the goal's current nonce and
+ * publish it on the job (served by the API); relay it only if configured.
+ * The verdict contract's goal with the same id must be this goal.
+ */
+async function signAndRelayVerdict(
+  ctx: VerifierContext,
+  job: VerificationJob,
+  entry: NewLedgerEntry,
+  goal: { user: `0x${string}`; description: string }
+) {
+  const { publicClient, account, txManager, config } = ctx;
+  const verdictContract = ctx.target.verdictContractAddress!;
+  const result = job.result!;
+
+  const verdictGoal = await timeStage(ctx.target.name, "contract_read", () =>
+    getMatchingVerdictGoal(
+      publicClient,
+      verdictContract,
+      BigInt(job.goalId),
+      goal
+    )
+  );
+  if (verdictGoal.status !== 0) {
+    console.log(
+      `⏭️  Goal #${job.goalId} is already resolved on the verdict contract (status ${verdictGoal.status}), skipping`
+    );
+    entry.outcome = "already_resolved";
+    return;
+  }
+
+  console.log("✍️  Signing verdict...");
+  const verdict = await signVerdict(
+    publicClient,
+    account,
+    verdictContract,
+    BigInt(job.goalId),
+    result.score
+  );
+  result.verdict = verdict;
+  entry.outcome = "signed";
+  console.log(
+    `✅ Verdict signed (nonce ${verdict.nonce}): ${verdict.signature.slice(0, 18)}...`
+  );
+
+  if (config.verdict.relay) {
+    console.log("⛓️  Relaying signed verdict...");
+    const receipt = await timeStage(ctx.target.name, "tx_submit", () =>
+      relayVerdict(txManager, verdict)
+    );
+    console.log(
+      `✅ Transaction confirmed: ${receipt.transactionHash} (block ${receipt.blockNumber})`
+    );
+    result.txHash = receipt.transactionHash;
+    result.confirmedAt = Date.now();
+    entry.txHash = receipt.transactionHash;
+    entry.outcome = "confirmed";
+  }
+
+  console.log(`✨ Goal #${job.goalId} processing complete!\n`);
+}
+
+/**
+ * Log and count a shadow score once the primary verifier's score is known
+ */
+function logShadowComparison(ctx: VerifierContext, record: ShadowRecord) {
+  const agreed = record.outcome === record.primaryOutcome;
+  shadowComparisons.inc({
+    target: ctx.target.name,
+    result: agreed ? "agree" : "disagree",
+  });
+  console.log(
+    `🌗 Goal #${record.goalId} shadow ${record.score} (${record.outcome}) vs primary ${record.primaryScore} (${record.primaryOutcome}) ${agreed ? "✅" : "⚠️  outcome differs"}`
+  );
+}
+
+/**
+ * Release the checkpoint hold of every log that led to a settled job. A
+ * dead-lettered job is released too: the dead-letter table in the queue file
+ * is its durable record, and a hold would stop the checkpoint for good.
+ */
+function releaseJobLogs(
+  ctx: VerifierContext,
+  tracker: CheckpointTracker,
+  job: VerificationJob
+) {
+  for (const key of ctx.heldLogs.get(job.id) ?? []) {
+    tracker.release(key);
+  }
+  ctx.heldLogs.delete(job.id);
+}
+
+/**
+ * Newest block with the configured number of confirmations on top of it
+ */
+function confirmedBlock(ctx: VerifierContext, head: bigint): bigint {
+  const depth = BigInt(ctx.config.eventLoop.confirmations);
+  return head > depth ? head - depth : 0n;
+}
+
+/**
+ * Check the most recently scanned block against the chain. If a reorg
+ * replaced it, rewind the scanner to the newest scanned block that is still
+ * canonical so the replaced range is scanned again.
+ */
+async function detectReorg(ctx: VerifierContext, tracker: CheckpointTracker) {
+  const recent = tracker.recentBlocks;
+  if (recent.length === 0) return;
+
+  const isCanonical = async ({ number, hash }: (typeof recent)[number]) =>
+    (await ctx.publicClient.getBlock({ blockNumber: number })).hash === hash;
+
+  const newest = recent[recent.length - 1];
+  if (await isCanonical(newest)) return;
+
+  let rewindTo = recent[0].number - 1n;
+  for (let i = recent.length - 2; i >= 0; i--) {
+    if (await isCanonical(recent[i])) {
+      rewindTo = recent[i].number;
+      break;
+    }
+  }
+  reorgsDetected.inc({ target: ctx.target.name });
+  console.warn(
+    `🔀 Reorg replaced block ${newest.number} after it was scanned, rescanning from block ${rewindTo + 1n}`
+  );
+  tracker.rewind(rewindTo);
+}
+
+/**
+ * Replay ProofSubmitted logs from the checkpoint up to `toBlock` (a confirmed
+ * block), in bounded block ranges, and enqueue a job for each. A log keeps
+ * holding the checkpoint until its job is done or dead-lettered.
+ */
+async function syncProofSubmissions(
+  ctx: VerifierContext,
+  queue: JobQueue,
+  tracker: CheckpointTracker,
+  toBlock: bigint
+) {
+  const { publicClient, contractAddress } = ctx;
+  const { logBlockRange } = ctx.config.eventLoop;
+
+  await detectReorg(ctx, tracker);
+  if (tracker.lastScannedBlock >= toBlock) return;
+
+  for (
+    let fromBlock = tracker.lastScannedBlock + 1n;
+    fromBlock <= toBlock;
+    fromBlock += logBlockRange
+  ) {
+    const rangeEnd = fromBlock + logBlockRange - 1n;
+    const endBlock = rangeEnd < toBlock ? rangeEnd : toBlock;
+
+    const logs = await getProofSubmittedLogs(
+      publicClient,
+      contractAddress,
+      fromBlock,
+      endBlock
+    );
+
+    for (const log of logs) {
+      if (log.removed) continue;
+      const key = `${log.transactionHash}:${log.logIndex}`;
+      // Replays of an already-queued proof (e.g. after a restart) stay quiet
+      const isNew =
+        queue.get(log.args.goalId.toString())?.proofURI !== log.args.proofURI;
+      const job = queue.enqueue(log.args.goalId, log.args.proofURI);
+      if (isNew) {
+        proofsReceived.inc({ target: ctx.target.name, source: "event" });
+        ctx.notifier.notify({
+          type: "proof_submitted",
+          goalId: job.goalId,
+          user: log.args.user,
+          proofURI: log.args.proofURI,
+        });
       }
-    });
-    console.log("👂 Listening for GoalCreated events...");
-
-    // Watch for ProofSubmitted events (trigger AI verification)
-    const unwatchProof = watchProofSubmitted(publicClient, contractAddress, async (logs) => {
-      for (const log of logs) {
-        const args = log.args as any;
-        if (args.goalId && args.proofURI) {
-          await processProofSubmission(args.goalId, args.proofURI);
-        }
+
+      if (job.state === "pending" || job.state === "running") {
+        tracker.hold(key, log.blockNumber);
+        ctx.heldLogs.set(job.id, [...(ctx.heldLogs.get(job.id) ?? []), key]);
       }
-    });
-    console.log("👂 Listening for ProofSubmitted events...");
-
-    // Watch for GoalVerified events (log verification results)
-    const unwatchVerified = watchGoalVerified(publicClient, contractAddress, async (logs) => {
-      for (const log of logs) {
-        const args = log.args as any;
-        if (args.goalId !== undefined) {
-          console.log(
-            `${args.passed ? "✅" : "❌"} Goal #${args.goalId.toString()} verified: ${args.passed ? "PASSED" : "FAILED"} (score: ${args.score?.toString()})`
+    }
+
+    tracker.markScanned(endBlock);
+  }
+
+  const { hash } = await publicClient.getBlock({ blockNumber: toBlock });
+  tracker.recordBlockHash(toBlock, hash);
+}
+
+/**
+ * Sweep all goals on-chain and score any that have a proof but no AI score
+ */
+async function reconcileGoals(ctx: VerifierContext, queue: JobQueue) {
+  const { publicClient, contractAddress } = ctx;
+
+  console.log("🔄 Reconciling goals against on-chain state...");
+  // Read confirmed state so unconfirmed proofs wait, as they do in the scanner
+  const confirmed = confirmedBlock(ctx, await publicClient.getBlockNumber());
+  const unscored = await findUnscoredGoals(
+    publicClient,
+    contractAddress,
+    confirmed
+  );
+  console.log(`🔄 Found ${unscored.length} unscored goal(s) with proof`);
+
+  for (const { goalId, proofURI } of unscored) {
+    if (queue.get(goalId.toString())?.proofURI !== proofURI) {
+      proofsReceived.inc({ target: ctx.target.name, source: "reconcile" });
+    }
+    queue.enqueue(goalId, proofURI);
+  }
+}
+
+/**
+ * Sweep all goals on-chain and expire the active ones whose proof window
+ * closed without a proof. Goals are expired one at a time so a revert (e.g.
+ * someone else expired it first) only skips that goal.
+ */
+async function expireGoals(ctx: VerifierContext) {
+  const { publicClient, contractAddress, txManager } = ctx;
+
+  // The contract compares against block time, not our clock
+  const { timestamp } = await publicClient.getBlock();
+  const expired = await findExpiredGoals(publicClient, contractAddress, timestamp);
+  if (expired.length === 0) return;
+  console.log(`⌛ Found ${expired.length} goal(s) past their proof window`);
+
+  for (const goal of expired) {
+    const goalId = goal.goalId.toString();
+    try {
+      const receipt = await expireGoal(txManager, contractAddress, goal.goalId);
+      goalsExpired.inc({ target: ctx.target.name, result: "expired" });
+      console.log(`⌛ Goal #${goalId} expired (tx: ${receipt.transactionHash})`);
+      ctx.notifier.notify({
+        type: "goal_expired",
+        goalId,
+        user: goal.user,
+        stakeAmount: goal.stakeAmount.toString(),
+        txHash: receipt.transactionHash,
+      });
+    } catch (error) {
+      if (error instanceof GoalNotActiveError) {
+        goalsExpired.inc({ target: ctx.target.name, result: "already_resolved" });
+        console.log(`⏭️  Goal #${goalId} was resolved before our expiry landed, skipping`);
+        continue;
+      }
+      goalsExpired.inc({ target: ctx.target.name, result: "error" });
+      if (error instanceof ContractRevertError) {
+        txReverts.inc({ target: ctx.target.name, error: error.name });
+      }
+      console.error(`⚠️  Failed to expire goal #${goalId}:`, error);
+    }
+  }
+}
+
+/**
+ * Sweep all goals on-chain and track every open DAO vote, covering votes
+ * started while the service was down
+ */
+async function trackOpenVotes(ctx: VerifierContext) {
+  const votes = await findOpenVotes(ctx.publicClient, ctx.contractAddress);
+  for (const { goalId, deadline } of votes) {
+    ctx.voteDeadlines.set(goalId.toString(), deadline);
+  }
+  console.log(`🗳️  Tracking ${votes.length} open DAO vote(s)`);
+}
+
+/**
+ * Call resolveVote for every tracked vote whose deadline passed. Without
+ * quorum the contract extends the vote, which is then tracked with its new
+ * deadline.
+ */
+async function resolveDueVotes(ctx: VerifierContext) {
+  const { publicClient, contractAddress, txManager } = ctx;
+  if (ctx.voteDeadlines.size === 0) return;
+
+  // The contract compares against block time, not our clock
+  const { timestamp } = await publicClient.getBlock();
+
+  for (const [goalId, deadline] of ctx.voteDeadlines) {
+    if (timestamp <= deadline) continue;
+    try {
+      const receipt = await resolveVote(txManager, contractAddress, BigInt(goalId));
+      const [yesVotes, noVotes, resolved] = await getVoteInfo(
+        publicClient,
+        contractAddress,
+        BigInt(goalId)
+      );
+      if (resolved) {
+        ctx.voteDeadlines.delete(goalId);
+        votesResolved.inc({ target: ctx.target.name, result: "resolved" });
+        console.log(
+          `🗳️  Vote on goal #${goalId} resolved: ${yesVotes} yes / ${noVotes} no (tx: ${receipt.transactionHash})`
+        );
+      } else {
+        const [newDeadline] = await getVoteParams(publicClient, contractAddress, BigInt(goalId));
+        ctx.voteDeadlines.set(goalId, newDeadline);
+        votesResolved.inc({ target: ctx.target.name, result: "extended" });
+        console.log(
+          `🗳️  Vote on goal #${goalId} missed quorum, extended to ${new Date(Number(newDeadline) * 1000).toISOString()}`
+        );
+      }
+    } catch (error) {
+      if (error instanceof GoalNotActiveError) {
+        ctx.voteDeadlines.delete(goalId);
+        votesResolved.inc({ target: ctx.target.name, result: "already_resolved" });
+        console.log(`⏭️  Vote on goal #${goalId} was resolved before ours landed, skipping`);
+        continue;
+      }
+      votesResolved.inc({ target: ctx.target.name, result: "error" });
+      if (error instanceof ContractRevertError) {
+        txReverts.inc({ target: ctx.target.name, error: error.name });
+      }
+      console.error(`⚠️  Failed to resolve vote on goal #${goalId}:`, error);
+    }
+  }
+}
+
+/**
+ * Load the checkpoint and decide where the log scanner starts.
+ * Without a checkpoint, the configured start block is used, falling back to
+ * the chain head.
+ */
+async function initCheckpoint(
+  ctx: VerifierContext
+): Promise<CheckpointTracker> {
+  const { checkpointFile } = ctx.target;
+  const saved = loadCheckpoint(checkpointFile);
+  if (saved !== null) {
+    console.log(`📌 Resuming from checkpoint block ${saved}`);
+    return new CheckpointTracker(checkpointFile, saved);
+  }
+
+  const startBlock =
+    ctx.target.startBlock ?? (await ctx.publicClient.getBlockNumber());
+  console.log(`📌 No checkpoint found, starting at block ${startBlock}`);
+  return new CheckpointTracker(checkpointFile, startBlock - 1n);
+}
+
+/**
+ * Start the watchers, job queue and keepers for one target. Resolves once
+ * the target has caught up with the proofs it missed while down.
+ */
+async function startTarget(
+  config: VerifierConfig,
+  target: TargetConfig,
+  ledger: VerificationLedger,
+  notifier: Notifier
+): Promise<{ api: ApiTarget; stop: () => void }> {
+  const ctx = createContext(config, target, ledger, notifier);
+  const { publicClient, contractAddress } = ctx;
+  const { quorum, verdict } = config;
+
+  console.log(`✅ Connected to ${target.name} (chain ${target.chainId})`);
+  console.log(`📋 Contract: ${contractAddress}`);
+  console.log(`🔗 Verifier: ${ctx.account.address}`);
+  if (verdict.mode === "signature") {
+    // Config validation makes the Secure address required in signature mode
+    const verdictContract = target.verdictContractAddress!;
+    const aiSigner = await getAISigner(publicClient, verdictContract);
+    if (!isAddressEqual(aiSigner, ctx.account.address)) {
+      throw new Error(
+        `${target.name}: verdict contract ${verdictContract} accepts signatures from ${aiSigner}, not the verifier key ${ctx.account.address}`
+      );
+    }
+    console.log(
+      `✍️  Signed verdicts for ${verdictContract}${verdict.relay ? " (relayed by the verifier)" : ""}`
+    );
+  }
+
+  // Watch for GoalCreated events (log new goals)
+  const unwatchCreated = watchGoalCreated(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId !== undefined) {
+        console.log(`📢 New goal created: #${args.goalId.toString()}`);
+        console.log(`   User: ${args.user}`);
+        console.log(`   Stake: ${args.stakeAmount?.toString()} wei`);
+        console.log(`   Description: ${args.description || "N/A"}\n`);
+        ctx.notifier.notify({
+          type: "goal_created",
+          goalId: args.goalId.toString(),
+          user: args.user,
+          stakeAmount: args.stakeAmount.toString(),
+          description: args.description,
+        });
+      }
+    }
+  });
+  console.log("👂 Listening for GoalCreated events...");
+
+  // Verification jobs survive restarts; interrupted ones run again
+  const tracker = await initCheckpoint(ctx);
+  const queue = new JobQueue(
+    {
+      path: target.queueFile,
+      concurrency: config.queue.concurrency,
+      maxAttempts: config.queue.maxAttempts,
+      pollIntervalMs: 1000,
+      retryPolicies: config.queue.retryPolicies,
+      doneRetentionMs: config.queue.doneRetentionMs,
+    },
+    (job) => processProofSubmission(ctx, job)
+  );
+  queue.onSettled((job) => releaseJobLogs(ctx, tracker, job));
+  observeQueue(target.name, queue);
+  queue.start();
+  console.log(
+    `📦 Job queue: ${queue.list("pending").length} pending, ${queue.listDeadLetters().length} dead-lettered`
+  );
+
+  // Backfill ProofSubmitted events missed while the service was down
+  const head = await publicClient.getBlockNumber();
+  const confirmed = confirmedBlock(ctx, head);
+  if (confirmed > tracker.lastScannedBlock) {
+    console.log(
+      `⏪ Backfilling ProofSubmitted from block ${tracker.lastScannedBlock + 1n} to ${confirmed}...`
+    );
+    await syncProofSubmissions(ctx, queue, tracker, confirmed);
+    checkpointLag.set(
+      { target: ctx.target.name },
+      Number(head - tracker.lastProcessedBlock)
+    );
+    console.log(
+      `✅ Backfill complete (checkpoint: block ${tracker.lastProcessedBlock})`
+    );
+  }
+
+  // Pick up goals that events alone missed (crashes, failed submissions)
+  if (config.reconcile.onStart) {
+    await reconcileGoals(ctx, queue);
+  }
+  const reconcileTimer =
+    config.reconcile.intervalMs > 0
+      ? setInterval(() => {
+          reconcileGoals(ctx, queue).catch((error) =>
+            console.error("⚠️  Reconciliation sweep failed:", error)
+          );
+        }, config.reconcile.intervalMs)
+      : undefined;
+
+  // Fail goals nobody submitted a proof for (only instances that submit)
+  const { expiryIntervalMs, voteIntervalMs } = config.keepers;
+  const runsKeeper =
+    expiryIntervalMs > 0 && !ctx.shadow && quorum.role !== "member";
+  const runExpiryKeeper = () =>
+    expireGoals(ctx).catch((error) =>
+      console.error("⚠️  Expiry keeper sweep failed:", error)
+    );
+  if (runsKeeper) {
+    void runExpiryKeeper();
+    console.log(`⌛ Expiry keeper: sweeping every ${expiryIntervalMs / 1000}s`);
+  }
+  const expiryTimer = runsKeeper
+    ? setInterval(runExpiryKeeper, expiryIntervalMs)
+    : undefined;
+
+  // Resolve DAO votes past their deadline (only instances that submit)
+  const runsVoteKeeper =
+    voteIntervalMs > 0 && !ctx.shadow && quorum.role !== "member";
+  let resolvingVotes = false;
+  const runVoteKeeper = async () => {
+    // A sweep can outlast the interval while transactions confirm
+    if (resolvingVotes) return;
+    resolvingVotes = true;
+    await resolveDueVotes(ctx)
+      .catch((error) => console.error("⚠️  Vote keeper sweep failed:", error))
+      .finally(() => {
+        resolvingVotes = false;
+      });
+  };
+  if (runsVoteKeeper) {
+    await trackOpenVotes(ctx).catch((error) =>
+      console.error("⚠️  Failed to load open votes:", error)
+    );
+    void runVoteKeeper();
+    console.log(`🗳️  Vote keeper: checking deadlines every ${voteIntervalMs / 1000}s`);
+  }
+  const voteTimer = runsVoteKeeper
+    ? setInterval(runVoteKeeper, voteIntervalMs)
+    : undefined;
+
+  // Poll for new ProofSubmitted events (trigger AI verification)
+  let polling = true;
+  let pollTimer: NodeJS.Timeout | undefined;
+  const pollProofs = async () => {
+    try {
+      const latest = await publicClient.getBlockNumber();
+      await syncProofSubmissions(
+        ctx,
+        queue,
+        tracker,
+        confirmedBlock(ctx, latest)
+      );
+      checkpointLag.set(
+        { target: ctx.target.name },
+        Number(latest - tracker.lastProcessedBlock)
+      );
+    } catch (error) {
+      console.error("⚠️  ProofSubmitted sync failed, retrying:", error);
+    }
+    if (polling) {
+      pollTimer = setTimeout(pollProofs, config.eventLoop.pollIntervalMs);
+    }
+  };
+  pollTimer = setTimeout(pollProofs, config.eventLoop.pollIntervalMs);
+  const unwatchProof = () => {
+    polling = false;
+    clearTimeout(pollTimer);
+  };
+  console.log(
+    `👂 Listening for ProofSubmitted events (${config.eventLoop.confirmations} confirmation(s))...`
+  );
+
+  // Watch for GoalVerified events (log verification results)
+  const unwatchVerified = watchGoalVerified(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId !== undefined) {
+        console.log(
+          `${args.passed ? "✅" : "❌"} Goal #${args.goalId.toString()} verified: ${args.passed ? "PASSED" : "FAILED"} (score: ${args.score?.toString()})`
+        );
+        ctx.notifier.notify({
+          type: "goal_verified",
+          goalId: args.goalId.toString(),
+          score: Number(args.score),
+          passed: args.passed,
+        });
+      }
+    }
+  });
+  console.log("👂 Listening for GoalVerified events...");
+
+  // In shadow mode, compare with the scores the primary verifier submits
+  const unwatchScored = ctx.shadow
+    ? watchAIScoredProof(publicClient, contractAddress, async (logs) => {
+        for (const log of logs) {
+          const args = log.args as any;
+          if (args.goalId === undefined) continue;
+          const record = ctx.shadow!.recordPrimary(
+            args.goalId.toString(),
+            Number(args.score),
+            log.transactionHash
           );
+          if (record) logShadowComparison(ctx, record);
         }
+      })
+    : undefined;
+
+  // Watch DAO votes (tracked for the vote keeper) and charity donations
+  const unwatchVote = watchVoteStarted(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId === undefined) continue;
+      console.log(`🗳️  Goal #${args.goalId.toString()} went to a DAO vote`);
+      ctx.voteDeadlines.set(args.goalId.toString(), args.votingDeadline);
+      try {
+        const goal = await getGoal(publicClient, contractAddress, args.goalId);
+        ctx.notifier.notify({
+          type: "vote_started",
+          goalId: args.goalId.toString(),
+          aiScore: Number(goal.aiScore),
+          description: goal.description,
+          votingDeadline: Number(args.votingDeadline),
+        });
+      } catch (error) {
+        console.error(`⚠️  Failed to read goal #${args.goalId.toString()}:`, error);
       }
+    }
+  });
+  const unwatchVoteExtended = watchVoteExtended(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId === undefined) continue;
+      ctx.voteDeadlines.set(args.goalId.toString(), args.votingDeadline);
+    }
+  });
+  const unwatchVoteResolved = watchVoteResolved(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId === undefined) continue;
+      ctx.voteDeadlines.delete(args.goalId.toString());
+      ctx.notifier.notify({
+        type: "vote_resolved",
+        goalId: args.goalId.toString(),
+        passed: args.passed,
+        yesVotes: Number(args.yesVotes),
+        noVotes: Number(args.noVotes),
+      });
+    }
+  });
+  const unwatchDonation = watchCharityDonation(publicClient, contractAddress, async (logs) => {
+    for (const log of logs) {
+      const args = log.args as any;
+      if (args.goalId === undefined) continue;
+      console.log(`💸 Goal #${args.goalId.toString()} donated ${args.amount?.toString()} wei to charity`);
+      ctx.notifier.notify({
+        type: "charity_donation",
+        goalId: args.goalId.toString(),
+        charity: args.charity,
+        amount: args.amount.toString(),
+      });
+    }
+  });
+  console.log("👂 Listening for vote and CharityDonation events...\n");
+
+  return {
+    api: {
+      name: target.name,
+      chainId: target.chainId,
+      publicClient,
+      contractAddress,
+      verdictContractAddress: target.verdictContractAddress,
+      verifierAddress: ctx.account.address,
+      queue,
+      tracker,
+      shadow: ctx.shadow,
+    },
+    stop: () => {
+      unwatchCreated();
+      unwatchProof();
+      unwatchVerified();
+      unwatchVote();
+      unwatchVoteExtended();
+      unwatchVoteResolved();
+      unwatchDonation();
+      unwatchScored?.();
+      clearInterval(reconcileTimer);
+      clearInterval(expiryTimer);
+      clearInterval(voteTimer);
+      queue.stop();
+    },
+  };
+}
+
+async function startVerifier() {
+  console.log("\n🚀 TimeVault AI Verifier starting...");
+  console.log("=======================================");
+
+  try {
+    // Every setting is validated here, before anything connects
+    const config = loadConfig();
+    console.log(`⚙️  Configuration:\n${formatConfig(config)}`);
+    const { quorum } = config;
+
+    const ledger = await openLedger(
+      config.ledger.databaseUrl,
+      config.ledger.sqlitePath
+    );
+    const notifier = createNotifier({
+      ...config.notify,
+      baseDelayMs: 1000,
     });
-    console.log("👂 Listening for GoalVerified events...\n");
+
+    console.log(`🤖 Model: ${config.scoring.model} (via ${config.scoring.provider})`);
+    console.log(
+      `🖼️  Image proofs: ${config.scoring.visionModel ? `scored by ${config.scoring.visionModel}` : "OCR for the text model"}`
+    );
+    if (config.mode === "shadow") {
+      console.log("🌒 Shadow mode: scores are recorded, never submitted");
+    }
+    if (quorum.role !== "off") {
+      console.log(
+        quorum.role === "member"
+          ? "🤝 Quorum member: scores are attested, never submitted"
+          : `🤝 Quorum coordinator: median of ${quorum.minScores}+ member scores, max spread ${quorum.maxSpread}`
+      );
+    }
+    console.log(`🔔 ${notifier.sinkCount} notification sink(s)`);
+    console.log("=======================================\n");
+
+    // Each target gets its own clients, watchers, checkpoint and queue
+    const targets: Array<{ api: ApiTarget; stop: () => void }> = [];
+    for (const target of config.targets) {
+      targets.push(await startTarget(config, target, ledger, notifier));
+    }
+
+    // Serve verification status, health and queue over HTTP
+    const apiServer =
+      config.api.port > 0
+        ? startApiServer(config.api.port, {
+            targets: targets.map((target) => target.api),
+            corsOrigin: config.api.corsOrigin,
+          })
+        : undefined;
+    if (apiServer) {
+      console.log(`🌐 API listening on port ${config.api.port}`);
+    }
 
     // Keep process alive
     process.on("SIGINT", () => {
       console.log("\n\n🛑 Shutting down gracefully...");
-      unwatchCreated();
-      unwatchProof();
-      unwatchVerified();
-      process.exit(0);
+      for (const target of targets) target.stop();
+      apiServer?.close();
+      ledger.close().finally(() => process.exit(0));
     });
   } catch (error) {
     console.error("❌ Verifier startup failed:", error);
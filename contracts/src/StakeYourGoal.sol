@@ -46,6 +46,8 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         mapping(address => bool) hasVoted;
         bool resolved;
         bool passed;
+        uint256 deadline;     // set when the vote starts; 0 = no vote
+        uint256 quorum;       // minimum total votes, fixed when the vote starts
     }
     mapping(uint256 => Vote) public votes;
 
@@ -56,6 +58,8 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
     // State variables
     uint256 public minimumStake = 0.01 ether;
     uint256 public votingPeriod = 7 days;
+    uint256 public voteQuorum = 1;
+    uint256 public constant PROOF_GRACE_PERIOD = 1 days;
     address public aiVerifier;
     uint256 public totalStaked;
 
@@ -91,8 +95,10 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
 
     event VoteStarted(uint256 indexed goalId, uint256 votingDeadline);
     event VoteCast(uint256 indexed goalId, address indexed voter, bool support);
+    event VoteExtended(uint256 indexed goalId, uint256 votingDeadline, uint256 totalVotes);
     event VoteResolved(uint256 indexed goalId, bool passed, uint256 yesVotes, uint256 noVotes);
     event GoalResolved(uint256 indexed goalId, uint8 status);
+    event GoalExpired(uint256 indexed goalId, address indexed caller);
     event StakeWithdrawn(address indexed user, uint256 amount);
 
     event GoalVerified(
@@ -173,7 +179,7 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         Goal storage goal = goals[goalId];
         require(goal.user == msg.sender, "Only goal creator can submit proof");
         require(goal.status == 0, "Goal not active");
-        require(block.timestamp <= goal.deadline + 1 days, "Proof submission window closed");
+        require(block.timestamp <= goal.deadline + PROOF_GRACE_PERIOD, "Proof submission window closed");
 
         goal.proofURI = proofURI;
         emit ProofSubmitted(goalId, msg.sender, proofURI);
@@ -206,7 +212,10 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
             emit GoalVerified(goalId, msg.sender, score, false);
         } else {
             // Mid-range: trigger DAO vote (no GoalVerified yet)
-            emit VoteStarted(goalId, block.timestamp + votingPeriod);
+            Vote storage v = votes[goalId];
+            v.deadline = block.timestamp + votingPeriod;
+            v.quorum = voteQuorum;
+            emit VoteStarted(goalId, v.deadline);
         }
 
         emit AIScoredProof(goalId, score, "AI verification complete");
@@ -254,6 +263,7 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         require(goal.aiScore >= 40 && goal.aiScore < 75, "Not eligible for voting");
 
         Vote storage v = votes[goalId];
+        require(block.timestamp <= v.deadline, "Voting closed");
         require(!v.hasVoted[msg.sender], "Already voted");
 
         v.hasVoted[msg.sender] = true;
@@ -268,7 +278,9 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Resolve voting and finalize goal status
+     * @dev Resolve voting and finalize goal status (anyone, after the deadline)
+     * If fewer than `quorum` votes were cast, voting is extended by another
+     * voting period instead of resolving
      */
     function resolveVote(uint256 goalId) 
         external 
@@ -280,6 +292,15 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         
         require(!v.resolved, "Vote already resolved");
         require(goal.status == 0, "Goal not active");
+        require(v.deadline != 0, "Voting not started");
+        require(block.timestamp > v.deadline, "Voting still open");
+
+        uint256 totalVotes = v.yesVotes + v.noVotes;
+        if (totalVotes < v.quorum) {
+            v.deadline = block.timestamp + votingPeriod;
+            emit VoteExtended(goalId, v.deadline, totalVotes);
+            return;
+        }
 
         bool passed = v.yesVotes > v.noVotes;
         v.resolved = true;
@@ -297,6 +318,29 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         emit GoalResolved(goalId, goal.status);
     }
 
+    /**
+     * @dev Fail a goal whose proof window closed without a proof (anyone can call)
+     */
+    function expireGoal(uint256 goalId)
+        external
+        goalExists(goalId)
+        nonReentrant
+    {
+        Goal storage goal = goals[goalId];
+        require(goal.status == 0, "Goal not active");
+        require(block.timestamp > goal.deadline + PROOF_GRACE_PERIOD, "Proof window still open");
+        require(bytes(goal.proofURI).length == 0, "Proof already submitted");
+
+        goal.status = 2; // failed
+        // The stake of a goal that never got a proof leaves totalStaked;
+        // other failure paths keep theirs counted
+        totalStaked -= goal.stakeAmount;
+        _onGoalFailed(goalId, goal);
+
+        emit GoalExpired(goalId, msg.sender);
+        emit GoalResolved(goalId, 2);
+    }
+
     /**
      * @dev Withdraw stake (only if goal completed successfully)
      */
@@ -355,6 +399,19 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         return (v.yesVotes, v.noVotes, v.resolved);
     }
 
+    /**
+     * @dev Get voting deadline and quorum (deadline 0 = no vote started)
+     */
+    function getVoteParams(uint256 goalId)
+        external
+        view
+        goalExists(goalId)
+        returns (uint256 deadline, uint256 quorum)
+    {
+        Vote storage v = votes[goalId];
+        return (v.deadline, v.quorum);
+    }
+
     /**
      * @dev Admin: set AI verifier address
      */
@@ -376,6 +433,14 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
         votingPeriod = _period;
     }
 
+    /**
+     * @dev Admin: set minimum votes for a DAO vote to resolve (applies to new votes)
+     */
+    function setVoteQuorum(uint256 _quorum) external onlyOwner {
+        require(_quorum > 0, "Quorum must be > 0");
+        voteQuorum = _quorum;
+    }
+
     /**
      * @dev Admin: set charity address for failed stakes
      */
@@ -431,7 +496,7 @@ contract StakeYourGoal is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @dev Called when a goal fails (AI score < 40 or vote failed)
+     * @dev Called when a goal fails (AI score < 40, vote failed or expired)
      * Resets user streak and routes stake to charity if configured
      */
     function _onGoalFailed(uint256 goalId, Goal storage goal) internal {
@@ -630,7 +630,8 @@ contract StakeYourGoalTest is Test {
         vm.prank(address(0x12));
         stakeContract.vote(goalId, false);
 
-        // Resolve
+        // Resolve after the voting period
+        vm.warp(block.timestamp + 7 days + 1);
         stakeContract.resolveVote(goalId);
 
         StakeYourGoal.Goal memory goal = stakeContract.getGoal(goalId);
@@ -659,7 +660,8 @@ contract StakeYourGoalTest is Test {
         vm.prank(address(0x12));
         stakeContract.vote(goalId, true);
 
-        // Resolve
+        // Resolve after the voting period
+        vm.warp(block.timestamp + 7 days + 1);
         stakeContract.resolveVote(goalId);
 
         StakeYourGoal.Goal memory goal = stakeContract.getGoal(goalId);
@@ -683,6 +685,7 @@ contract StakeYourGoalTest is Test {
         vm.prank(address(0x10));
         stakeContract.vote(goalId, true);
 
+        vm.warp(block.timestamp + 7 days + 1);
         stakeContract.resolveVote(goalId);
 
         // Goal should be completed
@@ -697,6 +700,298 @@ contract StakeYourGoalTest is Test {
         assertEq(currentStreak, 1);
     }
 
+    function _startVote(uint256 score) internal returns (uint256 goalId) {
+        vm.prank(user);
+        goalId = stakeContract.createGoal{value: 0.1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+
+        vm.prank(user);
+        stakeContract.submitProof(goalId, "QmProofCID");
+
+        vm.prank(verifier);
+        stakeContract.setAIScore(goalId, uint64(score));
+    }
+
+    function testVoteStoresDeadlineAndQuorum() public {
+        stakeContract.setVoteQuorum(3);
+        uint256 goalId = _startVote(50);
+
+        (uint256 deadline, uint256 quorum) = stakeContract.getVoteParams(goalId);
+        assertEq(deadline, block.timestamp + 7 days);
+        assertEq(quorum, 3);
+    }
+
+    function testVoteStartedEmitsStoredDeadline() public {
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+
+        vm.expectEmit(true, false, false, true);
+        emit StakeYourGoal.VoteStarted(goalId, block.timestamp + 7 days);
+
+        vm.prank(verifier);
+        stakeContract.setAIScore(goalId, 60);
+    }
+
+    function testResolveVoteRevertsBeforeDeadline() public {
+        uint256 goalId = _startVote(50);
+
+        vm.prank(address(0x10));
+        stakeContract.vote(goalId, true);
+
+        vm.warp(block.timestamp + 7 days);
+        vm.expectRevert("Voting still open");
+        stakeContract.resolveVote(goalId);
+    }
+
+    function testResolveVoteRevertsWithoutVote() public {
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+
+        vm.expectRevert("Voting not started");
+        stakeContract.resolveVote(goalId);
+    }
+
+    function testVoteRevertsAfterDeadline() public {
+        uint256 goalId = _startVote(50);
+
+        vm.warp(block.timestamp + 7 days + 1);
+        vm.prank(address(0x10));
+        vm.expectRevert("Voting closed");
+        stakeContract.vote(goalId, true);
+    }
+
+    function testResolveVoteExtendsWithoutQuorum() public {
+        uint256 goalId = _startVote(50);
+
+        vm.warp(block.timestamp + 7 days + 1);
+
+        vm.expectEmit(true, false, false, true);
+        emit StakeYourGoal.VoteExtended(goalId, block.timestamp + 7 days, 0);
+        stakeContract.resolveVote(goalId);
+
+        // A 0-0 tally does not fail the goal
+        StakeYourGoal.Goal memory goal = stakeContract.getGoal(goalId);
+        assertEq(goal.status, 0);
+        (, , bool resolved) = stakeContract.getVoteInfo(goalId);
+        assertFalse(resolved);
+
+        // Voting reopens until the new deadline
+        vm.prank(address(0x10));
+        stakeContract.vote(goalId, true);
+
+        vm.warp(block.timestamp + 7 days + 1);
+        stakeContract.resolveVote(goalId);
+
+        goal = stakeContract.getGoal(goalId);
+        assertEq(goal.status, 1);
+    }
+
+    function testVoteQuorumFixedAtVoteStart() public {
+        uint256 goalId = _startVote(50);
+        stakeContract.setVoteQuorum(5);
+
+        vm.prank(address(0x10));
+        stakeContract.vote(goalId, false);
+
+        vm.warp(block.timestamp + 7 days + 1);
+        stakeContract.resolveVote(goalId);
+
+        // Quorum of 1 applied, not the new 5
+        StakeYourGoal.Goal memory goal = stakeContract.getGoal(goalId);
+        assertEq(goal.status, 2);
+    }
+
+    function testSetVoteQuorumRevertsZero() public {
+        vm.expectRevert("Quorum must be > 0");
+        stakeContract.setVoteQuorum(0);
+    }
+
+    // ============================================================
+    // ⌛ EXPIRY TESTS
+    // ============================================================
+
+    function testExpireGoalAfterProofWindow() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(deadline, 0, "Learn Solidity");
+
+        vm.warp(deadline + 1 days + 1);
+
+        // Anyone can expire it
+        vm.prank(address(0x10));
+        stakeContract.expireGoal(goalId);
+
+        StakeYourGoal.Goal memory goal = stakeContract.getGoal(goalId);
+        assertEq(goal.status, 2); // failed
+    }
+
+    function testExpireGoalEmitsEvents() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(deadline, 0, "Learn Solidity");
+
+        vm.warp(deadline + 1 days + 1);
+
+        vm.expectEmit(true, true, false, true);
+        emit StakeYourGoal.GoalExpired(goalId, address(0x10));
+        vm.expectEmit(true, false, false, true);
+        emit StakeYourGoal.GoalResolved(goalId, 2);
+
+        vm.prank(address(0x10));
+        stakeContract.expireGoal(goalId);
+    }
+
+    function testExpireGoalRoutesStakeToCharity() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(deadline, 0, "Learn Solidity");
+
+        uint256 charityBalanceBefore = charity.balance;
+        vm.warp(deadline + 1 days + 1);
+        stakeContract.expireGoal(goalId);
+
+        assertEq(charity.balance - charityBalanceBefore, 0.5 ether);
+        assertEq(stakeContract.totalStaked(), 0);
+    }
+
+    function testExpireGoalResetsStreak() public {
+        vm.startPrank(user);
+        stakeContract.createGoal{value: 0.1 ether}(uint64(block.timestamp + 30 days), 0, "Goal 1");
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(uint64(block.timestamp + 30 days), 0, "Goal 2");
+        vm.stopPrank();
+
+        vm.prank(verifier);
+        stakeContract.verifyGoal(0, true);
+
+        (uint64 currentBefore, ) = stakeContract.getUserStreak(user);
+        assertEq(currentBefore, 1);
+
+        vm.warp(block.timestamp + 31 days + 1);
+        stakeContract.expireGoal(goalId);
+
+        (uint64 current, uint64 highest) = stakeContract.getUserStreak(user);
+        assertEq(current, 0);
+        assertEq(highest, 1);
+    }
+
+    function testExpireGoalRevertsDuringProofWindow() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(deadline, 0, "Learn Solidity");
+
+        // Past the deadline but still inside the grace period
+        vm.warp(deadline + 1 days);
+        vm.expectRevert("Proof window still open");
+        stakeContract.expireGoal(goalId);
+    }
+
+    function testExpireGoalRevertsWithProof() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(deadline, 0, "Learn Solidity");
+
+        vm.prank(user);
+        stakeContract.submitProof(goalId, "QmProofCID");
+
+        vm.warp(deadline + 1 days + 1);
+        vm.expectRevert("Proof already submitted");
+        stakeContract.expireGoal(goalId);
+    }
+
+    function testExpireGoalRevertsWhenResolved() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 0.1 ether}(deadline, 0, "Learn Solidity");
+
+        vm.prank(verifier);
+        stakeContract.verifyGoal(goalId, true);
+
+        vm.warp(deadline + 1 days + 1);
+        vm.expectRevert("Goal not active");
+        stakeContract.expireGoal(goalId);
+    }
+
+    function testExpireGoalReleasesTotalStaked() public {
+        uint64 deadline = uint64(block.timestamp + 30 days);
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(deadline, 0, "Learn Solidity");
+        assertEq(stakeContract.totalStaked(), 1 ether);
+
+        vm.warp(deadline + 1 days + 1);
+        stakeContract.expireGoal(goalId);
+
+        assertEq(stakeContract.totalStaked(), 0);
+        assertEq(address(stakeContract).balance, 0.5 ether);
+    }
+
+    // Only expiry releases totalStaked: on the other failure paths the stake
+    // stays counted, while the charity share still leaves the balance
+
+    function testAIFailKeepsTotalStaked() public {
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+        vm.prank(user);
+        stakeContract.submitProof(goalId, "QmProofCID");
+
+        vm.prank(verifier);
+        stakeContract.setAIScore(goalId, 20);
+
+        assertEq(stakeContract.totalStaked(), 1 ether);
+        assertEq(address(stakeContract).balance, 0.5 ether);
+    }
+
+    function testVerifyGoalFailKeepsTotalStaked() public {
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+
+        vm.prank(verifier);
+        stakeContract.verifyGoal(goalId, false);
+
+        assertEq(stakeContract.totalStaked(), 1 ether);
+        assertEq(address(stakeContract).balance, 0.5 ether);
+    }
+
+    function testVoteFailKeepsTotalStaked() public {
+        vm.prank(user);
+        uint256 goalId = stakeContract.createGoal{value: 1 ether}(
+            uint64(block.timestamp + 30 days),
+            0,
+            "Learn Solidity"
+        );
+        vm.prank(user);
+        stakeContract.submitProof(goalId, "QmProofCID");
+        vm.prank(verifier);
+        stakeContract.setAIScore(goalId, 60);
+
+        vm.prank(address(0x10));
+        stakeContract.vote(goalId, false);
+        vm.warp(block.timestamp + 7 days + 1);
+        stakeContract.resolveVote(goalId);
+
+        assertEq(stakeContract.getGoal(goalId).status, 2);
+        assertEq(stakeContract.totalStaked(), 1 ether);
+        assertEq(address(stakeContract).balance, 0.5 ether);
+    }
+
     // ============================================================
     // 🔢 FUZZ TESTS
     // ============================================================
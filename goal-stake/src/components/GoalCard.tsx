@@ -6,9 +6,13 @@ import { Button } from "@/components/ui/button";
 import type { Goal } from "@/lib/mockData";
 import { useNavigate } from "react-router-dom";
 import { contractFunctions, connectWallet, getWalletAddress } from "@/lib/web3";
-import { Loader2, Wallet, CheckCircle2, Trophy, ExternalLink, Image, FileText } from "lucide-react";
+import { useGoalVerification } from "@/hooks/use-verification";
+import type { SignedVerdict } from "@/lib/verifierApi";
+import { Loader2, Wallet, CheckCircle2, Trophy, ExternalLink, Image, FileText, Send, Hourglass } from "lucide-react";
 
 const IPFS_GATEWAY = "https://gateway.pinata.cloud/ipfs";
+// Proofs are accepted until one day after the deadline (PROOF_GRACE_PERIOD)
+const PROOF_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
 
 interface GoalCardProps {
   goal: Goal & { aiScore?: number; category?: string; canWithdraw?: boolean; proofURI?: string; rawStatus?: number };
@@ -77,10 +81,25 @@ function ProofDisplay({ proofURI }: { proofURI: string }) {
   );
 }
 
+/** Proof window closed without a proof: failed on-chain, or waiting for someone to call expireGoal */
+function isExpired(goal: GoalCardProps["goal"]) {
+  if (goal.proofSubmitted) return false;
+  if (goal.rawStatus !== undefined && goal.rawStatus !== 0 && goal.rawStatus !== 2) return false;
+  return goal.deadline.getTime() + PROOF_GRACE_PERIOD_MS < Date.now();
+}
+
 /** Verification status badge based on contract status */
-function VerificationBadge({ rawStatus, aiScore }: { rawStatus?: number; aiScore?: number }) {
+function VerificationBadge({ rawStatus, aiScore, expired }: { rawStatus?: number; aiScore?: number; expired?: boolean }) {
   if (rawStatus === undefined) return null;
 
+  if (expired) {
+    return (
+      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-muted text-muted-foreground border border-border">
+        ⌛ No proof before deadline
+      </span>
+    );
+  }
+
   switch (rawStatus) {
     case 0:
       if (aiScore && aiScore >= 40 && aiScore < 75) {
@@ -112,11 +131,94 @@ function VerificationBadge({ rawStatus, aiScore }: { rawStatus?: number; aiScore
   }
 }
 
+/** Submit a verdict signed by the verifier; the connected wallet pays the gas */
+function RelayVerdictButton({ verdict, onRelayed }: { verdict: SignedVerdict; onRelayed: () => void }) {
+  const [relaying, setRelaying] = useState(false);
+  const [relayed, setRelayed] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRelay = async () => {
+    try {
+      setError(null);
+      setRelaying(true);
+
+      if (!getWalletAddress()) {
+        await connectWallet();
+      }
+
+      await contractFunctions.relayAIVerdict(verdict);
+      setRelayed(true);
+      onRelayed();
+    } catch (e) {
+      console.error("Verdict relay failed:", e);
+      setError((e as Error).message || "Verdict submission failed");
+    } finally {
+      setRelaying(false);
+    }
+  };
+
+  if (relayed) {
+    return (
+      <span className="mt-2 flex items-center gap-1 text-xs text-emerald-400 font-medium">
+        <CheckCircle2 className="w-3 h-3" /> Verdict submitted
+      </span>
+    );
+  }
+
+  return (
+    <div className="mt-2">
+      <Button size="sm" variant="outline" className="gap-1 h-7 text-xs" onClick={handleRelay} disabled={relaying}>
+        {relaying ? <Loader2 className="w-3 h-3 animate-spin" /> : <Send className="w-3 h-3" />}
+        {relaying ? "Submitting..." : "Submit AI verdict"}
+      </Button>
+      {error && <p className="mt-1 text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+/** AI reasoning from the verifier API, shown once the proof has been scored */
+function AIReasoning({ goalId, enabled }: { goalId: string; enabled: boolean }) {
+  const { data: verification, refetch } = useGoalVerification(goalId, enabled);
+
+  if (!verification) return null;
+
+  if (!verification.reason) {
+    if (verification.state === "dead_letter") {
+      return (
+        <div className="mt-3 p-3 rounded-lg bg-red-500/5 border border-red-500/20 text-xs text-red-400">
+          ⚠️ AI verification could not be completed. An operator will review it.
+        </div>
+      );
+    }
+    return null;
+  }
+
+  return (
+    <div className="mt-3 p-3 rounded-lg bg-secondary/30 border border-border/50 text-xs">
+      <p className="text-muted-foreground">
+        <span className="font-medium text-foreground">💬 Why this score: </span>
+        {verification.reason}
+      </p>
+      {verification.model && (
+        <p className="mt-1 text-[10px] text-muted-foreground/70 font-mono">
+          {verification.model}
+          {verification.scoredAt && ` · ${new Date(verification.scoredAt).toLocaleString()}`}
+        </p>
+      )}
+      {verification.verdict && verification.verdictRelayable && (
+        <RelayVerdictButton verdict={verification.verdict} onRelayed={() => refetch()} />
+      )}
+    </div>
+  );
+}
+
 export function GoalCard({ goal, index = 0, onWithdraw }: GoalCardProps) {
   const navigate = useNavigate();
   const [withdrawing, setWithdrawing] = useState(false);
   const [withdrawn, setWithdrawn] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const expired = isExpired(goal);
+  const canSubmitProof = goal.status === 'active' && !goal.proofSubmitted && !expired;
 
   const handleWithdraw = async () => {
     try {
@@ -169,10 +271,16 @@ export function GoalCard({ goal, index = 0, onWithdraw }: GoalCardProps) {
                 AI: {goal.aiScore}/100
               </span>
             )}
-            <VerificationBadge rawStatus={goal.rawStatus} aiScore={goal.aiScore} />
+            <VerificationBadge rawStatus={goal.rawStatus} aiScore={goal.aiScore} expired={expired} />
           </div>
         </div>
-        <CountdownTimer deadline={goal.deadline} size="sm" />
+        {expired ? (
+          <span className="flex items-center gap-1 text-xs font-semibold text-muted-foreground">
+            <Hourglass className="w-3 h-3" /> Expired
+          </span>
+        ) : (
+          <CountdownTimer deadline={goal.deadline} size="sm" />
+        )}
       </div>
 
       {/* Proof Display */}
@@ -180,13 +288,16 @@ export function GoalCard({ goal, index = 0, onWithdraw }: GoalCardProps) {
         <ProofDisplay proofURI={goal.proofURI} />
       )}
 
+      {/* AI reasoning behind the score */}
+      <AIReasoning goalId={goal.id} enabled={goal.proofSubmitted} />
+
       <div className="flex items-center justify-between mt-4">
         <div className="flex items-center gap-3">
           <div className="text-sm">
             <span className="text-muted-foreground">Stake: </span>
             <span className="font-bold gradient-text">{goal.stakeAmount} {goal.currency}</span>
           </div>
-          <StatusBadge status={goal.status} />
+          <StatusBadge status={expired ? 'expired' : goal.status} />
         </div>
 
         <div className="flex items-center gap-2">
@@ -224,15 +335,15 @@ export function GoalCard({ goal, index = 0, onWithdraw }: GoalCardProps) {
           {/* Submit proof / view details */}
           <Button
             size="sm"
-            className={goal.status === 'active' && !goal.proofSubmitted ? 'gradient-btn border-0' : ''}
-            variant={goal.status === 'active' && !goal.proofSubmitted ? 'default' : 'outline'}
+            className={canSubmitProof ? 'gradient-btn border-0' : ''}
+            variant={canSubmitProof ? 'default' : 'outline'}
             onClick={() => {
-              if (goal.status === 'active' && !goal.proofSubmitted) {
+              if (canSubmitProof) {
                 navigate(`/submit-proof/${goal.id}`);
               }
             }}
           >
-            {goal.status === 'active' && !goal.proofSubmitted
+            {canSubmitProof
               ? 'Submit Proof'
               : goal.status === 'pending_review'
                 ? 'Under Review'
@@ -40,7 +40,7 @@ export function ProofUpload({ onFileSelect }: ProofUploadProps) {
           onClick={() => {
             const input = document.createElement('input');
             input.type = 'file';
-            input.accept = 'image/*,.pdf,.doc,.docx';
+            input.accept = 'image/*,.pdf,.docx';
             input.onchange = (e) => {
               const f = (e.target as HTMLInputElement).files?.[0];
               if (f) handleFile(f);
@@ -1,6 +1,6 @@
 import { cn } from "@/lib/utils";
 
-type Status = 'active' | 'pending_review' | 'approved' | 'failed' | 'pending';
+type Status = 'active' | 'pending_review' | 'approved' | 'failed' | 'pending' | 'expired';
 
 const statusConfig: Record<Status, { label: string; className: string }> = {
   active: { label: 'Active', className: 'bg-accent/20 text-accent border-accent/30' },
@@ -8,6 +8,7 @@ const statusConfig: Record<Status, { label: string; className: string }> = {
   pending: { label: 'Pending', className: 'bg-warning/20 text-warning border-warning/30' },
   approved: { label: 'Approved', className: 'bg-success/20 text-success border-success/30' },
   failed: { label: 'Failed', className: 'bg-destructive/20 text-destructive border-destructive/30' },
+  expired: { label: 'Expired', className: 'bg-muted text-muted-foreground border-border' },
 };
 
 export function StatusBadge({ status }: { status: Status }) {
@@ -24,6 +25,7 @@ export function StatusBadge({ status }: { status: Status }) {
         status === 'pending' && "bg-warning",
         status === 'approved' && "bg-success",
         status === 'failed' && "bg-destructive",
+        status === 'expired' && "bg-muted-foreground",
       )} />
       {config.label}
     </span>
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { VERIFIER_API_URL, fetchGoalVerification } from "@/lib/verifierApi";
+
+const POLL_INTERVAL_MS = 5000;
+
+/**
+ * Verification status and AI reasoning for a goal, polled until the verifier
+ * has finished with it and its score is on-chain
+ */
+export function useGoalVerification(goalId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["verification", goalId],
+    queryFn: () => fetchGoalVerification(goalId!),
+    enabled: enabled && !!goalId && !!VERIFIER_API_URL,
+    refetchInterval: (query) => {
+      const data = query.state.data;
+      const settled =
+        data?.state === "dead_letter" ||
+        (data?.state === "completed" && (data.onChain.status !== "active" || !!data.txHash));
+      return settled ? false : POLL_INTERVAL_MS;
+    },
+  });
+}
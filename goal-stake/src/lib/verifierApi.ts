@@ -0,0 +1,53 @@
+// Client for the backend AI verifier HTTP API (verification status and AI reasoning)
+
+export const VERIFIER_API_URL = (import.meta.env.VITE_VERIFIER_API_URL || "").replace(/\/$/, "");
+
+export type VerificationState = 'not_queued' | 'queued' | 'processing' | 'retrying' | 'completed' | 'dead_letter';
+
+/** AI verdict signed by the verifier; anyone can submit it to StakeYourGoalSecure */
+export interface SignedVerdict {
+  contract: `0x${string}`;
+  goalId: string;
+  score: number;
+  nonce: string;
+  signature: `0x${string}`;
+  signer: `0x${string}`;
+  signedAt: number;
+}
+
+export interface GoalVerification {
+  goalId: string;
+  state: VerificationState;
+  proofURI: string | null;
+  score: number | null;
+  reason: string | null;
+  model: string | null;
+  txHash: `0x${string}` | null;
+  scoredAt: string | null;
+  confirmedAt: string | null;
+  queuedAt: string | null;
+  updatedAt: string | null;
+  attempts: number;
+  lastError: string | null;
+  verdict: SignedVerdict | null;
+  /** The verdict's goal is still active on StakeYourGoalSecure and its nonce is current */
+  verdictRelayable: boolean;
+  onChain: {
+    status: 'active' | 'voting' | 'completed' | 'failed' | 'disputed' | 'unknown';
+    aiScore: number;
+    proofURI: string | null;
+  };
+}
+
+/**
+ * Fetch the verifier's record for a goal. Returns null when the API is not
+ * configured or the goal does not exist.
+ */
+export async function fetchGoalVerification(goalId: string): Promise<GoalVerification | null> {
+  if (!VERIFIER_API_URL) return null;
+
+  const res = await fetch(`${VERIFIER_API_URL}/goals/${goalId}/verification`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Verifier API error: ${res.status}`);
+  return (await res.json()) as GoalVerification;
+}
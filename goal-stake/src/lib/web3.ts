@@ -58,6 +58,42 @@ export const STAKE_CONTRACT_ABI = [
       { indexed: false, name: "passed", type: "bool" },
     ],
   },
+  {
+    type: "event",
+    name: "VoteStarted",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "votingDeadline", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteCast",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: true, name: "voter", type: "address" },
+      { indexed: false, name: "support", type: "bool" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteExtended",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "votingDeadline", type: "uint256" },
+      { indexed: false, name: "totalVotes", type: "uint256" },
+    ],
+  },
+  {
+    type: "event",
+    name: "VoteResolved",
+    inputs: [
+      { indexed: true, name: "goalId", type: "uint256" },
+      { indexed: false, name: "passed", type: "bool" },
+      { indexed: false, name: "yesVotes", type: "uint256" },
+      { indexed: false, name: "noVotes", type: "uint256" },
+    ],
+  },
   {
     type: "event",
     name: "GoalResolved",
@@ -179,6 +215,31 @@ export const STAKE_CONTRACT_ABI = [
     ],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "getVoteParams",
+    inputs: [{ name: "goalId", type: "uint256" }],
+    outputs: [
+      { name: "deadline", type: "uint256" },
+      { name: "quorum", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+] as const;
+
+// StakeYourGoalSecure: submit an AI verdict signed by the verifier (any account can relay it)
+export const SECURE_CONTRACT_ABI = [
+  {
+    type: "function",
+    name: "submitAIVerdictWithSignature",
+    inputs: [
+      { name: "goalId", type: "uint256" },
+      { name: "score", type: "uint64" },
+      { name: "signature", type: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
 ] as const;
 
 let walletAddress: `0x${string}` | null = null;
@@ -290,6 +351,18 @@ export const contractFunctions = {
     });
     return { hash };
   },
+  async relayAIVerdict({ contract, goalId, score, signature }: { contract: `0x${string}`; goalId: string; score: number; signature: `0x${string}` }) {
+    if (!walletClient || !walletAddress) throw new Error('Wallet not connected');
+    const hash = await walletClient.writeContract({
+      chain: monadTestnet,
+      address: contract,
+      abi: SECURE_CONTRACT_ABI,
+      functionName: 'submitAIVerdictWithSignature',
+      account: walletAddress,
+      args: [BigInt(goalId), BigInt(score), signature],
+    });
+    return { hash };
+  },
   async withdrawStake({ goalId }: { goalId: number }) {
     if (!walletClient || !walletAddress) throw new Error('Wallet not connected');
     const hash = await walletClient.writeContract({
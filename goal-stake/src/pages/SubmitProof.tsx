@@ -11,11 +11,52 @@ import { WalletButton } from "@/components/WalletButton";
 import { CountdownTimer } from "@/components/CountdownTimer";
 import { useNavigate, useParams } from "react-router-dom";
 import { connectWallet, getWalletAddress, contractFunctions, type TransactionState } from "@/lib/web3";
+import { useGoalVerification } from "@/hooks/use-verification";
 
 const IPFS_GATEWAY = "https://gateway.pinata.cloud/ipfs";
 
 type ProofTab = "file" | "text" | "link";
 
+/** Live AI verification progress after the proof is on-chain */
+function VerificationProgress({ goalId }: { goalId: string }) {
+  const { data: verification } = useGoalVerification(goalId);
+
+  if (!verification) return null;
+
+  if (verification.state === "completed" && verification.score !== null) {
+    const score = verification.score;
+    // The job is done once the proof is scored; the goal is only resolved
+    // once the score reaches the chain (signed verdicts and quorum scores
+    // may still be waiting to be relayed or aggregated)
+    const status = verification.onChain.status;
+    const outcome =
+      status === "completed" ? "✅ Goal completed" :
+        status === "failed" ? "❌ Goal failed" :
+          status === "voting" ? "🗳️ Sent to community vote" :
+            status === "disputed" ? "⚖️ Goal disputed" :
+              verification.txHash ? "⛓️ Score submitted on-chain" :
+                "⏳ Scored, awaiting relay/quorum";
+    return (
+      <div className="mt-6 p-4 rounded-xl bg-secondary/50 text-left">
+        <p className="text-sm font-medium text-foreground mb-1">
+          AI Score: <span className="gradient-text font-bold">{score}/100</span> — {outcome}
+        </p>
+        {verification.reason && (
+          <p className="text-sm text-muted-foreground">💬 {verification.reason}</p>
+        )}
+      </div>
+    );
+  }
+
+  const label =
+    verification.state === "processing" ? "🤖 AI is scoring your proof..." :
+      verification.state === "retrying" ? "🔁 Verification hit a snag, retrying automatically..." :
+        verification.state === "dead_letter" ? "⚠️ AI verification could not be completed. An operator will review it." :
+          "⏳ Queued for AI verification...";
+
+  return <p className="mt-6 text-sm text-muted-foreground">{label}</p>;
+}
+
 const SubmitProof = () => {
   const navigate = useNavigate();
   const { goalId } = useParams();
@@ -256,6 +297,7 @@ const SubmitProof = () => {
                     </div>
                   )}
                   <StatusBadge status="pending_review" />
+                  {goalId && <VerificationProgress goalId={goalId} />}
                   <div className="mt-8">
                     <Button variant="outline" onClick={() => navigate('/dashboard')}>Back to Dashboard</Button>
                   </div>